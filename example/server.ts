@@ -2,4 +2,16 @@ import { Application } from "./src/Application";
 import { NewstackServer } from "@newstack/framework/server";
 
 const app = new Application();
-new NewstackServer().start(app);
+const [command, ...paths] = process.argv.slice(2);
+
+if (command === "prerender") {
+  // Prerenders every route, or only the given paths: `node dist/server.js prerender /about`
+  new NewstackServer()
+    .prerender(app, {
+      params: { "/profile/:id": [{ id: "1" }, { id: "2" }] },
+      paths: paths.length ? paths : undefined,
+    })
+    .then((files) => console.log(`Prerendered ${files.length} pages`));
+} else {
+  new NewstackServer().start(app);
+}
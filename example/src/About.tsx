@@ -1,5 +1,10 @@
 /* ---------- Internal ---------- */
-import Newstack, { type NewstackClientContext } from "@newstack/framework";
+import Newstack, {
+  type NewstackClientContext,
+  type NewstackServerContext,
+  NewstackError,
+} from "@newstack/framework";
+import { greet } from "./server/greetings";
 
 /**
  * @description
@@ -9,15 +14,50 @@ import Newstack, { type NewstackClientContext } from "@newstack/framework";
  */
 export class About extends Newstack {
   msg: string;
+  calledAt: Date;
+
+  /**
+   * @description
+   * Validates the arguments sent by the client to each server function.
+   * A schema can also be any object with a `parse` method, such as a zod schema.
+   */
+  static schemas = {
+    NiceServerFunction: ({ name }: { name: unknown }) => {
+      if (typeof name !== "string") throw new Error("name must be a string");
+
+      return { name };
+    },
+  };
 
   /**
    * @description
    * Example server function that can be called from the client.
    * This method in the client-side will be replaced by a fetch call to the server
    * during the build process, while the server will execute this function directly.
+   * The server context of the call, such as the client IP, is merged into the arguments.
+   * Results keep their types, so `calledAt` arrives in the client as a `Date`.
    */
-  static async NiceServerFunction({ name }) {
-    return `Hello from the server, ${name}!`;
+  static async NiceServerFunction({
+    name,
+    ip,
+  }: { name: string } & Partial<NewstackServerContext>) {
+    return {
+      message: greet(name, ip),
+      calledAt: new Date(),
+    };
+  }
+
+  /**
+   * @description
+   * Example server function that fails with a status code and an error code.
+   * The client receives the same `NewstackError`, with its code and public data.
+   */
+  static async ForbiddenServerFunction() {
+    throw new NewstackError("You cannot do that", {
+      status: 403,
+      code: "FORBIDDEN",
+      data: { reason: "example" },
+    });
   }
 
   prepare({ page }: NewstackClientContext) {
@@ -26,11 +66,22 @@ export class About extends Newstack {
   }
 
   async callServerFunction() {
-    const message = await About.NiceServerFunction({
+    const { message, calledAt } = await About.NiceServerFunction({
       name: "Newstack User",
     });
 
     this.msg = message;
+    this.calledAt = calledAt;
+  }
+
+  async callFailingServerFunction() {
+    try {
+      await About.ForbiddenServerFunction();
+    } catch (error) {
+      if (error instanceof NewstackError) {
+        this.msg = `${error.status} ${error.code}: ${error.message}`;
+      }
+    }
   }
 
   render() {
@@ -42,12 +93,19 @@ export class About extends Newstack {
 
         <div>
           Server message: <pre>{this.msg || "..."}</pre>
+          {this.calledAt && (
+            <small>Called at {this.calledAt.toLocaleTimeString()}</small>
+          )}
         </div>
 
         <button type="button" onclick={() => this.callServerFunction()}>
           Call server function
         </button>
 
+        <button type="button" onclick={() => this.callFailingServerFunction()}>
+          Call failing server function
+        </button>
+
         <a href="/">Home</a>
       </div>
     );
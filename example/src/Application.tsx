@@ -1,10 +1,15 @@
 /* ---------- Internal ---------- */
-import Newstack from "@newstack/framework";
+import Newstack, { lazy } from "@newstack/framework";
 
 /* ---------- Pages ---------- */
 import { Home } from "./Home";
-import { About } from "./About";
-import { Profile } from "./Profile";
+import { NotFound } from "./NotFound";
+
+// Pages split into their own chunk, loaded when their route is rendered
+const About = lazy(() => import("./About"));
+const Profile = lazy(() => import("./Profile"), {
+  fallback: <p>Loading profile...</p>,
+});
 
 /**
  * @description
@@ -17,6 +22,7 @@ export class Application extends Newstack {
         <Home route="/" />
         <About route="/about" />
         <Profile route="/profile/:id" />
+        <NotFound route="*" />
       </main>
     );
   }
@@ -32,12 +32,18 @@ export class Home extends Newstack {
         <DynamicImport />
         <AutoCounter />
         <ChangeStringOnHydrate />
-        <ManualCounter />
+        <ManualCounter title="First manual counter" />
+        <ManualCounter title="Second manual counter" />
         <InputShow />
         <List />
         <SayHelloAppender />
 
-        <a href="/about">About</a>
+        <a href="/about" prefetch>
+          About
+        </a>
+        <a href="/profile/2" prefetch="viewport">
+          Profile 2
+        </a>
 
         <button
           type="button"
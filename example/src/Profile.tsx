@@ -1,5 +1,11 @@
 /* ---------- Internal ---------- */
-import Newstack, { type NewstackClientContext } from "@newstack/framework";
+import Newstack, {
+  type NewstackClientContext,
+  type NewstackServerContext,
+} from "@newstack/framework";
+
+/* ---------- Components ---------- */
+import { ProfileActivity } from "./components/ProfileActivity";
 
 /**
  * @description
@@ -8,16 +14,53 @@ import Newstack, { type NewstackClientContext } from "@newstack/framework";
  * The page includes a link to navigate back to the home page.
  */
 export class Profile extends Newstack {
-  prepare({ page }: NewstackClientContext) {
+  name: string;
+
+  /**
+   * @description
+   * Loads the profile before rendering it. `/profile/me` redirects to the profile
+   * of the current user, and ids that are not numbers respond with a 404 status.
+   */
+  prepare({
+    page,
+    params,
+    router,
+    response,
+  }: NewstackClientContext & Partial<NewstackServerContext>) {
+    if (params.id === "me") {
+      router.path = "/profile/1";
+      return;
+    }
+
+    if (typeof params.id !== "string" || !/^\d+$/.test(params.id)) {
+      response?.status(404);
+      page.title = "Profile Not Found";
+      this.name = null;
+      return;
+    }
+
     page.title = "Profile Page";
     page.description = "User profile information.";
+    this.name = `User ${params.id}`;
   }
 
   render({ params }: NewstackClientContext) {
+    if (!this.name) {
+      return (
+        <div>
+          <h1>Profile Not Found</h1>
+          <p>There is no user with id {params.id}.</p>
+          <a href="/">Home</a>
+        </div>
+      );
+    }
+
     return (
       <div>
         <h1>Profile Page</h1>
         <p>This is the user profile page. id: {params.id}</p>
+        <p>Name: {this.name}</p>
+        <ProfileActivity />
         <a href="/">Home</a>
       </div>
     );
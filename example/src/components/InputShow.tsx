@@ -3,24 +3,39 @@ import Newstack from "@newstack/framework";
 /**
  * @description
  * This component shows the input value.
- * It updates the displayed value as the user types in the input field.
+ * It keeps the input and the displayed value in sync with two-way data binding,
+ * and keeps a reference to the input element to focus it.
+ * Navigating away with a typed value asks to discard it first.
  */
 export class InputShow extends Newstack {
   inputValue = "";
+  uppercase = false;
+  inputElement: HTMLInputElement;
 
-  oninput(e: Event) {
-    const target = e.target as HTMLInputElement;
-    this.inputValue = target.value;
+  beforeNavigate() {
+    if (!this.inputValue) return;
+
+    return confirm("Discard the typed value?");
   }
 
   render() {
+    const value = this.uppercase
+      ? this.inputValue.toUpperCase()
+      : this.inputValue;
+
     return (
       <div id="input-show-component">
         <h2>Input Show</h2>
 
         <p>This component shows the input value.</p>
-        <input type="text" oninput={this.oninput.bind(this)} />
-        <b>Current input: {this.inputValue}</b>
+        <input type="text" bind={this.inputValue} ref={this.inputElement} />
+        <button type="button" onclick={() => this.inputElement?.focus()}>
+          Focus input
+        </button>
+        <label>
+          <input type="checkbox" bind={this.uppercase} /> Uppercase
+        </label>
+        <b>Current input: {value}</b>
       </div>
     );
   }
@@ -1,11 +1,17 @@
-import Newstack from "@newstack/framework";
+import Newstack, { type NewstackClientContext } from "@newstack/framework";
+
+type ManualCounterProps = {
+  /** Title shown above the counter */
+  title?: string;
+};
 
 /**
  * @description
  * This component demonstrates a counter that grows as we click.
  * It uses a manual method to increase the count.
+ * Each rendered `<ManualCounter />` keeps its own count.
  */
-export class ManualCounter extends Newstack {
+export class ManualCounter extends Newstack<ManualCounterProps> {
   count = 0;
 
   /**
@@ -21,10 +27,10 @@ export class ManualCounter extends Newstack {
     console.log("Updating ManualCounter component...");
   }
 
-  render() {
+  render({ title }: NewstackClientContext<ManualCounterProps>) {
     return (
       <div>
-        <h2>Manual counter</h2>
+        <h2>{title || "Manual counter"}</h2>
 
         <p>
           This component demonstrates a counter that grows as we click.{" "}
@@ -0,0 +1,27 @@
+/* ---------- Internal ---------- */
+import Newstack, { type NewstackClientContext } from "@newstack/framework";
+
+/**
+ * @description
+ * This component loads the recent activity of a profile. In the server, the rest
+ * of the page is streamed right away and the activity is streamed once it is loaded.
+ */
+export class ProfileActivity extends Newstack {
+  activity: string[] = [];
+
+  async prepare({ params }: NewstackClientContext) {
+    // Simulates a slow database call
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    this.activity = [`User ${params.id} signed in`, "Updated their profile"];
+  }
+
+  render() {
+    return (
+      <ul>
+        {this.activity.map((entry) => (
+          <li>{entry}</li>
+        ))}
+      </ul>
+    );
+  }
+}
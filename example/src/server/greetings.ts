@@ -0,0 +1,12 @@
+/* ---------- External ---------- */
+import "server-only";
+
+/**
+ * @description
+ * Greets a user from the server. The module is marked as server-only, so
+ * importing it from client code fails the build, while the server functions
+ * using it are replaced by fetch calls and drop the import in the client.
+ */
+export function greet(name: string, ip: string): string {
+  return `Hello from the server, ${name}! Your IP is ${ip}.`;
+}
@@ -0,0 +1,264 @@
+import { type ChildProcess, fork } from "child_process";
+import { createHash } from "crypto";
+import { type BuildOptions, type Plugin, context } from "esbuild";
+import { readFile } from "fs/promises";
+import type { AddressInfo } from "net";
+import { basename, dirname, resolve, sep } from "path";
+import { WebSocketServer } from "ws";
+import { client, server } from "./options";
+
+/**
+ * @description
+ * Port of the WebSocket server sending the hot updates to the browser.
+ */
+const HMR_PORT = 24678;
+
+/**
+ * @description
+ * Starts the dev server. The server and the client are built with esbuild watch
+ * mode, so every change rebuilds them incrementally. The server is restarted once
+ * rebuilt, and the chunks of the client that changed are sent to the browser over
+ * a WebSocket, which swaps the component classes they declare without reloading
+ * the page. Changes to shared chunks, such as the framework, reload the page.
+ * The server runs with `NODE_ENV=development` unless it is already set.
+ * When the WebSocket port is taken, such as by another dev server, a free one is used.
+ *
+ * @example
+ * ```ts
+ * await dev({ server: { external: ["esbuild"] } });
+ * ```
+ *
+ * @param options Build options merged with the builder ones, and the WebSocket port.
+ * @returns Stops watching, the WebSocket server and the application server.
+ */
+export async function dev(
+  options: DevOptions = {},
+): Promise<() => Promise<void>> {
+  const sockets = await listen(options.hmrPort ?? HMR_PORT);
+  const { port } = sockets.address() as AddressInfo;
+  const env = {
+    ...process.env,
+    NODE_ENV: process.env.NODE_ENV ?? "development",
+    NEWSTACK_HMR: `ws://localhost:${port}`,
+  };
+
+  let app: ChildProcess | null = null;
+  let ready: Promise<void> = Promise.resolve();
+
+  const stop = async () => {
+    if (!app || app.exitCode !== null || app.signalCode !== null) return;
+
+    const exited = new Promise((done) => app.once("exit", done));
+    app.kill();
+    await exited;
+  };
+
+  // Updates sent meanwhile wait for the restarted server to listen
+  const restart = (file: string) => {
+    ready = ready.then(async () => {
+      await stop();
+
+      app = fork(file, { env });
+      await new Promise<void>((done) => {
+        app.on("message", (message) => message === "newstack:ready" && done());
+        app.once("exit", () => done());
+      });
+    });
+
+    return ready;
+  };
+
+  const broadcast = async (update: HotUpdate) => {
+    // The chunks are served by the server, which may be restarting
+    await ready;
+
+    for (const socket of sockets.clients) socket.send(JSON.stringify(update));
+  };
+
+  const serverContext = await context(
+    merge(server, options.server, RestartServer(restart)),
+  );
+  const clientContext = await context(
+    merge(client, options.client, HotReload(broadcast)),
+  );
+
+  await serverContext.watch();
+  await clientContext.watch();
+
+  console.log(`Newstack dev server is watching, hot reload on port ${port}`);
+
+  return async () => {
+    await Promise.all([serverContext.dispose(), clientContext.dispose()]);
+    sockets.close();
+    await stop();
+  };
+}
+
+/**
+ * @description
+ * Starts the WebSocket server on a port, or on a free one when the port is taken.
+ * Errors of a listening server, such as a failed connection, are logged.
+ */
+function listen(port: number): Promise<WebSocketServer> {
+  return new Promise((done, fail) => {
+    const sockets = new WebSocketServer({ port });
+
+    sockets.once("listening", () => {
+      sockets.on("error", (error) => console.error(error));
+      done(sockets);
+    });
+
+    sockets.once("error", (error: NodeJS.ErrnoException) => {
+      if (sockets.address()) return;
+      sockets.close();
+
+      if (error.code !== "EADDRINUSE" || port === 0) {
+        fail(error);
+        return;
+      }
+
+      console.log(`Port ${port} is in use, hot reload uses a free port`);
+      listen(0).then(done, fail);
+    });
+  });
+}
+
+/**
+ * @description
+ * Merges build options with the builder ones, keeping the plugins of both.
+ */
+function merge(
+  base: BuildOptions,
+  options: BuildOptions | undefined,
+  plugin: Plugin,
+): BuildOptions {
+  return {
+    ...base,
+    ...options,
+    plugins: [...(base.plugins ?? []), ...(options?.plugins ?? []), plugin],
+  };
+}
+
+/**
+ * @description
+ * Restarts the server once it is rebuilt. A failed build keeps the previous one running.
+ */
+function RestartServer(restart: (file: string) => Promise<void>): Plugin {
+  return {
+    name: "restart-server",
+    setup(build) {
+      build.initialOptions.metafile = true;
+
+      build.onEnd(async (result) => {
+        if (result.errors.length || !result.metafile) return;
+
+        const cwd = build.initialOptions.absWorkingDir ?? process.cwd();
+        const entry = Object.entries(result.metafile.outputs).find(
+          ([file, output]) => output.entryPoint && file.endsWith(".js"),
+        );
+
+        if (entry) await restart(resolve(cwd, entry[0]));
+      });
+    },
+  };
+}
+
+/**
+ * @description
+ * Compares the client chunks with the ones of the previous build and sends the
+ * changed ones to the browser. The chunks of entry points, the client entry and
+ * the lazily imported modules, are imported again. Shared chunks, and entries
+ * bundling the framework, as in applications without lazy components, cannot
+ * be evaluated twice, since a second framework would start a second client,
+ * so they reload the page.
+ */
+function HotReload(broadcast: (update: HotUpdate) => Promise<void>): Plugin {
+  let previous: Map<string, string> | null = null;
+  let version = 0;
+
+  return {
+    name: "hot-reload",
+    setup(build) {
+      build.initialOptions.metafile = true;
+
+      build.onEnd(async (result) => {
+        if (result.errors.length || !result.metafile) return;
+
+        const cwd = build.initialOptions.absWorkingDir ?? process.cwd();
+        const outputs = Object.entries(result.metafile.outputs).filter(
+          ([file]) => file.endsWith(".js"),
+        );
+
+        const framework = await build.resolve("@newstack/framework", {
+          kind: "import-statement",
+          resolveDir: cwd,
+        });
+        const frameworkDir = framework.errors.length
+          ? null
+          : dirname(framework.path) + sep;
+
+        const current = new Map<string, string>();
+        for (const [file] of outputs) {
+          const content = await readFile(resolve(cwd, file));
+          current.set(file, createHash("sha1").update(content).digest("hex"));
+        }
+
+        const last = previous;
+        previous = current;
+        if (!last) return;
+
+        const changed = outputs.filter(
+          ([file]) => last.get(file) !== current.get(file),
+        );
+        if (!changed.length) return;
+
+        const swappable = ([, output]: (typeof outputs)[number]) =>
+          output.entryPoint &&
+          frameworkDir !== null &&
+          !Object.keys(output.inputs).some((input) =>
+            resolve(cwd, input).startsWith(frameworkDir),
+          );
+
+        if (!changed.every(swappable)) {
+          await broadcast({ type: "reload" });
+          return;
+        }
+
+        version += 1;
+
+        // Files keeping their name, such as the client entry, get a new URL to be evaluated again
+        const chunks = changed.map(([file]) =>
+          last.has(file)
+            ? `/${basename(file)}?hmr=${version}`
+            : `/${basename(file)}`,
+        );
+
+        await broadcast({ type: "update", chunks });
+      });
+    },
+  };
+}
+
+/* ---------- Types ---------- */
+
+export type DevOptions = {
+  /**
+   * @description
+   * Options merged with the server build options.
+   */
+  server?: BuildOptions;
+
+  /**
+   * @description
+   * Options merged with the client build options.
+   */
+  client?: BuildOptions;
+
+  /**
+   * @description
+   * Port of the WebSocket server sending the hot updates, 24678 by default.
+   */
+  hmrPort?: number;
+};
+
+type HotUpdate = { type: "update"; chunks: string[] } | { type: "reload" };
@@ -1 +1,3 @@
 export * as builder from "./options";
+export { dev } from "./dev";
+export type { DevOptions } from "./dev";
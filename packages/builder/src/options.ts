@@ -1,6 +1,6 @@
 import type { BuildOptions } from "esbuild";
 
-import { SplitBundle, NewstackPlugin } from "./plugins";
+import { Compress, SplitBundle, NewstackPlugin, ServerOnly } from "./plugins";
 
 /**
  * @description
@@ -13,7 +13,7 @@ export const server: BuildOptions = {
   bundle: true,
   entryPoints: ["server.ts"],
   outdir: "dist",
-  plugins: [NewstackPlugin("server")],
+  plugins: [NewstackPlugin("server"), ServerOnly("server")],
   platform: "node",
   format: "esm",
   target: "node14",
@@ -23,7 +23,8 @@ export const server: BuildOptions = {
 
 /**
  * Build options for the client-side application.
- * This configuration is tailored for browser environments and includes plugins for splitting bundles and applying Newstack-specific transformations.
+ * This configuration is tailored for browser environments and includes plugins for splitting bundles, applying Newstack-specific transformations,
+ * rejecting server-only modules and precompressing the output files.
  *
  * @type {BuildOptions}
  */
@@ -32,7 +33,12 @@ export const client: BuildOptions = {
   entryPoints: ["client.ts"],
   chunkNames: "client-[name]-[hash]",
   outdir: "dist",
-  plugins: [SplitBundle(), NewstackPlugin("client")],
+  plugins: [
+    SplitBundle(),
+    NewstackPlugin("client"),
+    ServerOnly("client"),
+    Compress(),
+  ],
   platform: "browser",
   target: "esnext",
   format: "esm",
@@ -0,0 +1,63 @@
+import * as ts from "typescript";
+import { type NewstackSource, walk } from "./source";
+
+/**
+ * @description
+ * Compiles `bind={this.name}` and `ref={this.name}` JSX attributes into an object
+ * and property pair, `bind={{ object: this, property: "name" }}`, so the renderer can
+ * read and write the bound value or assign the element. Computed accessors such as
+ * `bind={this.items[index]}` keep their expression as the property.
+ * Callback refs, such as `ref={(element) => ...}`, are left untouched, and
+ * `ref={this.method}` is called with the element by the renderer.
+ */
+export function BindAttributes(source: NewstackSource) {
+  walk(source.ast, (node) => {
+    if (!ts.isJsxAttribute(node)) return;
+
+    const attribute = node.name.getText();
+    if (attribute !== "bind" && attribute !== "ref") return;
+
+    const initializer = node.initializer;
+    if (!initializer || !ts.isJsxExpression(initializer)) return;
+
+    const expression = initializer.expression;
+    if (!expression) return;
+
+    const accessor = unwrap(expression);
+    let object: ts.Expression;
+    let property: string;
+
+    if (ts.isPropertyAccessExpression(accessor)) {
+      object = accessor.expression;
+      property = JSON.stringify(accessor.name.text);
+    } else if (ts.isElementAccessExpression(accessor)) {
+      object = accessor.expression;
+      property = accessor.argumentExpression.getText();
+    } else {
+      return;
+    }
+
+    source.code.overwrite(
+      expression.getStart(),
+      expression.end,
+      `{ object: ${object.getText()}, property: ${property} }`,
+    );
+  });
+}
+
+/**
+ * @description
+ * Removes the parentheses and type assertions around an accessor,
+ * such as `(this.name as string)`.
+ */
+function unwrap(expression: ts.Expression): ts.Expression {
+  if (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isNonNullExpression(expression)
+  ) {
+    return unwrap(expression.expression);
+  }
+
+  return expression;
+}
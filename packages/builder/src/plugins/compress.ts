@@ -0,0 +1,62 @@
+import type { Plugin } from "esbuild";
+import { readFile, writeFile } from "fs/promises";
+import { resolve } from "path";
+import { promisify } from "util";
+import { brotliCompress, constants, gzip } from "zlib";
+
+const brotli = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+
+/**
+ * @description
+ * Output files worth compressing. Images and fonts are already compressed.
+ */
+const COMPRESSIBLE = /\.(js|mjs|css|html|json|map|svg|txt|xml|wasm)$/;
+
+/**
+ * @description
+ * Files smaller than this are served as they are, since compression would not pay off.
+ */
+const MIN_SIZE = 1024;
+
+/**
+ * @description
+ * This plugin writes `.br` and `.gz` siblings of the output files,
+ * so the server can send them directly instead of compressing on every request.
+ *
+ * @return {Plugin}
+ */
+export function Compress(): Plugin {
+  return {
+    name: "compress",
+    setup(build) {
+      build.initialOptions.metafile = true;
+
+      build.onEnd(async (result) => {
+        if (!result.metafile || build.initialOptions.write === false) return;
+
+        const cwd = build.initialOptions.absWorkingDir ?? process.cwd();
+        const outputs = Object.keys(result.metafile.outputs)
+          .filter((file) => COMPRESSIBLE.test(file))
+          .map((file) => resolve(cwd, file));
+
+        await Promise.all(
+          outputs.map(async (file) => {
+            const content = await readFile(file);
+            if (content.length < MIN_SIZE) return;
+
+            const [br, gz] = await Promise.all([
+              brotli(content, {
+                params: { [constants.BROTLI_PARAM_QUALITY]: 11 },
+              }),
+              gzipAsync(content, { level: 9 }),
+            ]);
+
+            await writeFile(`${file}.br`, br);
+            await writeFile(`${file}.gz`, gz);
+          }),
+        );
+      });
+    },
+  };
+}
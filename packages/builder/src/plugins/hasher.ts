@@ -1,35 +1,26 @@
-import type { OnLoadArgs } from "esbuild";
 import crypto from "crypto";
+import { bodyStart, type NewstackSource, projectPath } from "./source";
 
 /**
- * @todo
- * Implement AST
- *
  * @description
- * Based on each file path and class names, it goes through
- * every class that extends Newstack and add a static property
- * `hash`.
- *
- * @returns Hasher plugin
+ * Based on each file path, relative to the project, and class names,
+ * it goes through every class that extends Newstack and add a static
+ * property `hash`, so builds made in different directories match.
+ * Classes that already declare their `hash` keep it.
  */
-export function Hasher(args: OnLoadArgs, code: string) {
-  // Rough regex for classes extending Newstack without a static hash
-  const classRegex =
-    /class\s+([A-Za-z0-9_]+)\s+extends\s+Newstack\s*{([\s\S]*?)}/g;
+export function Hasher(source: NewstackSource) {
+  for (const component of source.components) {
+    if (component.hash) continue;
 
-  let didChange = false;
-  const transformed = code.replace(classRegex, (full, className, body) => {
-    if (/static\s+hash\s*=/.test(body)) return full; // already has hash
+    component.hash = hash(
+      `${projectPath(source.path, source.root)}:${component.name}`,
+    );
 
-    const h = hash(`${args.path}:${className}`);
-    didChange = true;
-
-    return `class ${className} extends Newstack {\n${" ".repeat(2)}static hash = "${h}";\n${body}}`;
-  });
-
-  if (!didChange) return code;
-
-  return transformed;
+    source.code.appendLeft(
+      bodyStart(component),
+      `\n  static hash = "${component.hash}";`,
+    );
+  }
 }
 
 function hash(input: string) {
@@ -1,14 +1,40 @@
 import type { Plugin } from "esbuild";
 import { readFile } from "fs/promises";
+import { BindAttributes } from "./bind-attributes";
 import { Hasher } from "./hasher";
+import { LazyImports } from "./lazy-imports";
+import {
+  type ManifestComponents,
+  registerComponents,
+  writeManifest,
+} from "./manifest";
+import { RegisterComponents } from "./register-components";
 import { ReplaceStaticMethods } from "./replace-static-methods";
-export { Hasher, ReplaceStaticMethods };
+import { RegisterServerFunctions } from "./server-functions";
+import { StripServerCode } from "./strip-server-code";
+import { generate, parse } from "./source";
+export {
+  BindAttributes,
+  Hasher,
+  LazyImports,
+  RegisterComponents,
+  RegisterServerFunctions,
+  ReplaceStaticMethods,
+  StripServerCode,
+};
+export * from "./compress";
+export { MANIFEST } from "./manifest";
+export * from "./server-only";
+export * from "./source";
 export * from "./split-bundle";
 
 /**
  * @description
  * Newstack plugin for esbuild.
- * It processes files that extend Newstack and process transformations.
+ * It parses each file into an AST once and runs every transformation on it,
+ * keeping a source map of the edits when the build has source maps enabled.
+ * Components getting the same hash fail the build, and the client build writes
+ * the manifest of the components and chunks read by the server.
  *
  * @param environment "client" | "server"
  * @returns {Plugin} Newstack plugin for esbuild
@@ -17,22 +43,50 @@ export function NewstackPlugin(environment: "client" | "server"): Plugin {
   return {
     name: "newstack-plugin",
     setup(build) {
+      const components: ManifestComponents = new Map();
+      const root = build.initialOptions.absWorkingDir ?? process.cwd();
+      build.onStart(() => components.clear());
+
       build.onLoad({ filter: /.[ts|js]x$/ }, async (args) => {
-        let code = await readFile(args.path, "utf8");
+        const code = await readFile(args.path, "utf8");
+        const source = parse(args.path, code, root);
 
         // Add a hash to classes extending Newstack
-        code = Hasher(args, code);
+        Hasher(source);
+
+        const collision = registerComponents(components, source);
+        if (collision) return { errors: [collision] };
+
+        // Compile `bind` and `ref` attributes into object and property pairs
+        BindAttributes(source);
+
+        // Tag lazy imports with their module, to find their chunks
+        LazyImports(source);
+
+        if (environment === "server") {
+          // List the server functions the server is allowed to execute
+          RegisterServerFunctions(source);
+        }
+
+        // Register the classes by hash, to find them without walking the application
+        // and to replace them on hot reload
+        RegisterComponents(source);
 
         if (environment === "client") {
           // Replace static methods with fetch calls in the client
-          code = ReplaceStaticMethods(args, code);
+          ReplaceStaticMethods(source);
+
+          // Remove server branches and the imports only server code uses
+          StripServerCode(source);
         }
 
         return {
-          contents: code,
+          contents: generate(source, !!build.initialOptions.sourcemap),
           loader: args.path.endsWith("jsx") ? "jsx" : "tsx",
         };
       });
+
+      if (environment === "client") writeManifest(build, components);
     },
   };
 }
@@ -0,0 +1,55 @@
+import { dirname, resolve } from "path";
+import * as ts from "typescript";
+import { type NewstackSource, projectPath, walk } from "./source";
+
+/**
+ * @description
+ * Adds the id of the imported module to the loader of `lazy(() => import("./Page"))`
+ * calls, such as `src/Page`, so the server can find the chunks of the lazy components
+ * it renders in the chunks manifest and preload them.
+ */
+export function LazyImports(source: NewstackSource) {
+  walk(source.ast, (node) => {
+    if (!ts.isCallExpression(node)) return;
+    if (!ts.isIdentifier(node.expression) || node.expression.text !== "lazy") {
+      return;
+    }
+
+    const loader = node.arguments[0];
+    const specifier = loader && importedBy(loader);
+    if (!specifier?.startsWith(".")) return;
+
+    const id = moduleId(resolve(dirname(source.path), specifier), source.root);
+
+    source.code.prependRight(loader.getStart(), "Object.assign(");
+    source.code.appendLeft(loader.end, `, { module: ${JSON.stringify(id)} })`);
+  });
+}
+
+/**
+ * @description
+ * The id of a module: its project path, without extension.
+ *
+ * @param path The absolute path of the module.
+ * @param root The project directory.
+ * @returns The module id.
+ */
+export function moduleId(path: string, root: string): string {
+  return projectPath(path, root).replace(/\.[cm]?[jt]sx?$/, "");
+}
+
+/**
+ * @description
+ * The module imported by a loader such as `() => import("./Page")`.
+ */
+function importedBy(loader: ts.Expression): string | undefined {
+  if (!ts.isArrowFunction(loader) || !ts.isCallExpression(loader.body)) return;
+
+  const {
+    expression,
+    arguments: [specifier],
+  } = loader.body;
+  if (expression.kind !== ts.SyntaxKind.ImportKeyword) return;
+
+  if (specifier && ts.isStringLiteralLike(specifier)) return specifier.text;
+}
@@ -0,0 +1,157 @@
+import type { Metafile, PartialMessage, PluginBuild } from "esbuild";
+import { writeFile } from "fs/promises";
+import { basename, resolve } from "path";
+import { moduleId } from "./lazy-imports";
+import { type NewstackSource, projectPath } from "./source";
+
+/**
+ * @description
+ * Name of the manifest, written next to the client bundle.
+ */
+export const MANIFEST = "newstack-manifest.json";
+
+/**
+ * @description
+ * Registers the components of a file in the components of the build,
+ * failing when two classes get the same hash, since the server could
+ * not tell which one a server function call is meant for.
+ *
+ * @returns {PartialMessage | undefined} The collision error, if any.
+ */
+export function registerComponents(
+  components: ManifestComponents,
+  source: NewstackSource,
+): PartialMessage | undefined {
+  const file = projectPath(source.path, source.root);
+  const hashes = new Set<string>();
+
+  for (const component of source.components) {
+    const { hash, name, node } = component;
+    const found = components.get(hash);
+    const collides =
+      hashes.has(hash) ||
+      (found && (found.file !== file || found.class !== name));
+
+    if (collides) {
+      const { line, character } = source.ast.getLineAndCharacterOfPosition(
+        node.getStart(),
+      );
+
+      return {
+        text: `Component hash "${hash}" of ${name} collides with ${found.class} in ${found.file}`,
+        detail:
+          "Rename one of the classes or declare a different `static hash`.",
+        location: { file: source.path, line: line + 1, column: character },
+      };
+    }
+
+    hashes.add(hash);
+    components.set(hash, {
+      file,
+      class: name,
+      module: moduleId(source.path, source.root),
+      serverFunctions: component.serverFunctions.map(({ name }) => name),
+    });
+  }
+}
+
+/**
+ * @description
+ * Writes a manifest with the components of the build by hash, with their file,
+ * class, server functions and chunks, along with the chunks of every module
+ * loaded with a dynamic import, such as the pages of lazy routes. The server
+ * finds the components of server function calls in it, and preloads the chunks
+ * of the lazy components rendered by the matched route with `<link rel="modulepreload">`.
+ *
+ * @param build The client build.
+ * @param components The components of the build, by hash.
+ */
+export function writeManifest(
+  build: PluginBuild,
+  components: ManifestComponents,
+) {
+  build.initialOptions.metafile = true;
+
+  build.onEnd(async (result) => {
+    if (!result.metafile || result.errors.length) return;
+    if (build.initialOptions.write === false) return;
+
+    const cwd = build.initialOptions.absWorkingDir ?? process.cwd();
+    const { outputs } = result.metafile;
+    const manifest: Manifest = { components: {}, modules: {} };
+    const chunksByFile = new Map<string, string[]>();
+
+    for (const [file, output] of Object.entries(outputs)) {
+      if (!file.endsWith(".js")) continue;
+
+      const chunks = chunksOf(outputs, file);
+
+      for (const input of Object.keys(output.inputs)) {
+        chunksByFile.set(projectPath(resolve(cwd, input), cwd), chunks);
+      }
+
+      if (!output.entryPoint) continue;
+
+      const id = moduleId(resolve(cwd, output.entryPoint), cwd);
+      manifest.modules[id] = chunks;
+      // `import("./pages")` resolves to `pages/index`
+      if (id.endsWith("/index")) manifest.modules[id.slice(0, -6)] = chunks;
+    }
+
+    for (const [hash, component] of components) {
+      const chunks = chunksByFile.get(component.file) ?? [];
+      manifest.components[hash] = { ...component, chunks };
+    }
+
+    const outdir = resolve(cwd, build.initialOptions.outdir ?? "dist");
+    await writeFile(
+      resolve(outdir, MANIFEST),
+      JSON.stringify(manifest, null, 2),
+    );
+  });
+}
+
+/**
+ * @description
+ * Lists an output file and the chunks it statically imports, as public URLs.
+ */
+function chunksOf(outputs: Metafile["outputs"], file: string): string[] {
+  const found = new Set<string>();
+
+  const loop = (path: string) => {
+    if (found.has(path) || !outputs[path]) return;
+    found.add(path);
+
+    for (const imported of outputs[path].imports) {
+      if (imported.kind === "import-statement") loop(imported.path);
+    }
+  };
+
+  loop(file);
+
+  return Array.from(found, (path) => `/${basename(path)}`);
+}
+
+/* ---------- Types ---------- */
+
+/**
+ * @description
+ * A component listed in the manifest. Its chunks are added once the build ends.
+ */
+type ManifestComponent = {
+  file: string;
+  class: string;
+  module: string;
+  serverFunctions: string[];
+};
+
+/**
+ * @description
+ * The components of a build, by hash.
+ */
+export type ManifestComponents = Map<string, ManifestComponent>;
+
+type Manifest = {
+  components: Record<string, ManifestComponent & { chunks: string[] }>;
+  modules: Record<string, string[]>;
+};
@@ -0,0 +1,24 @@
+import type { NewstackSource } from "./source";
+
+const FRAMEWORK_IMPORT = `import { registerComponent as __registerComponent } from "@newstack/framework";`;
+
+/**
+ * @description
+ * Registers every class that extends Newstack by its hash when its module
+ * is evaluated, through a static block at the end of the class, so the
+ * server finds the component of a server function call without walking
+ * the application tree, and the client replaces the classes of the
+ * modules evaluated again on hot reload.
+ */
+export function RegisterComponents(source: NewstackSource) {
+  for (const component of source.components) {
+    if (!component.hash) continue;
+
+    source.code.appendLeft(
+      component.node.end - 1,
+      "  static {\n    __registerComponent(this);\n  }\n",
+    );
+  }
+
+  if (source.components.length) source.code.prepend(`${FRAMEWORK_IMPORT}\n`);
+}
@@ -1,11 +1,7 @@
-import type { OnLoadArgs } from "esbuild";
+import * as ts from "typescript";
+import type { NewstackSource, ServerFunction } from "./source";
 
-const regexes = {
-  class: /class\s+(\w+)\s+extends\s+Newstack\s*{([\s\S]*?)^}/gm,
-  hash: /static\s+hash\s*=\s*["'`](.+?)["'`]/,
-  method:
-    /^(\s*)static\s+async\s+(\w+)\s*\(\s*(\w+|\{\s*\w+(?:\s*,\s*\w+)*\s*\})?\s*\)\s*\{([\s\S]*?)^\1}/gm,
-};
+const FRAMEWORK_IMPORT = `import { callServerFunction as __callServerFunction } from "@newstack/framework";`;
 
 /**
  * @kind Client
@@ -13,41 +9,42 @@ const regexes = {
  * @description
  * Goes through all classes that extend Newstack and
  * has static methods (server functions) and replaces
- * the content by a fetch call to `/api/newstack/{Component.Hash}/{methodName}`
- *
- * @returns {string} Updated code
+ * the content by a call to `/api/newstack/{Component.Hash}/{methodName}`
+ * through `callServerFunction`. Payloads go through the framework serializer,
+ * so dates, maps, sets and registered classes keep their types on both ends,
+ * failures are rethrown with the error class thrown by the server function,
+ * and calls made by prefetched links are reused.
  */
-export function ReplaceStaticMethods(args: OnLoadArgs, code: string): string {
-  let updated = code;
+export function ReplaceStaticMethods(source: NewstackSource) {
+  let replaced = false;
 
-  for (const [_, className, body] of code.matchAll(regexes.class)) {
-    const hash = body.match(regexes.hash)?.[1];
+  for (const { hash, serverFunctions } of source.components) {
     if (!hash) continue;
 
-    for (const [method, _, name, params] of body.matchAll(regexes.method)) {
-      const newMethod = `static async ${name}(${params}) { ${replacer({ args: [params], method: name, hash })} }`;
+    for (const fn of serverFunctions) {
+      const call = replacer({ hash, fn });
+
+      // Parameters, return type and body are replaced, so defaults and
+      // types referencing server code do not reach the client
+      if (ts.isMethodDeclaration(fn.node)) {
+        const { name, end } = fn.node;
+        source.code.overwrite(name.getStart(), end, `${name.getText()}${call}`);
+      } else {
+        const start = fn.node.getStart();
+        source.code.overwrite(start, fn.node.end, `async function ${call}`);
+      }
 
-      updated = updated.replace(method, newMethod);
+      replaced = true;
     }
   }
 
-  return updated;
+  if (replaced) source.code.prepend(`${FRAMEWORK_IMPORT}\n`);
 }
 
-function replacer({ args, method, hash }) {
-  return `
-        const body = ${args ?? "{}"};
-        delete body.deps; // Remove deps from the body if present
-        const url = "/api/newstack/${hash}/${method}";
-        const options = {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(body),
-        };
-
-        const { result, error } = await fetch(url, options).then((res) => res.json());
-        if (error) throw new Error(error);
-
-        return result;
-    `;
+function replacer({ hash, fn }: { hash: string; fn: ServerFunction }) {
+  const keys = fn.keys ? `, ${JSON.stringify(fn.keys)}` : "";
+
+  return `(args) {
+    return __callServerFunction("${hash}", "${fn.name}", args${keys});
+  }`;
 }
@@ -0,0 +1,21 @@
+import { bodyStart, type NewstackSource } from "./source";
+
+/**
+ * @kind Server
+ *
+ * @description
+ * Goes through all classes that extend Newstack and lists their
+ * server functions, static async methods and static properties holding
+ * an async function, in a static `serverFunctions` property, right after
+ * the class `hash`. The server only executes the methods listed there.
+ */
+export function RegisterServerFunctions(source: NewstackSource) {
+  for (const component of source.components) {
+    if (!component.hash) continue;
+
+    const names = component.serverFunctions.map(({ name }) => name);
+    const list = `static serverFunctions = ${JSON.stringify(names)};`;
+
+    source.code.appendLeft(bodyStart(component), `\n  ${list}`);
+  }
+}
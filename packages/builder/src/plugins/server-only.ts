@@ -0,0 +1,49 @@
+import type { Plugin } from "esbuild";
+import { relative } from "path";
+
+/**
+ * @description
+ * Marker module for modules that must never reach the client,
+ * such as database clients or secrets: `import "server-only";`
+ */
+export const SERVER_ONLY = "server-only";
+
+/**
+ * @description
+ * This plugin resolves the `server-only` marker module. It is an empty module
+ * on the server, and fails the client build with the module importing it.
+ * Imports only used by server functions are removed from the client by
+ * `StripServerCode` first, so server functions can use marked modules.
+ *
+ * @param environment "client" | "server"
+ * @return {Plugin}
+ */
+export function ServerOnly(environment: "client" | "server"): Plugin {
+  return {
+    name: "server-only",
+    setup(build) {
+      build.onResolve({ filter: /^server-only$/ }, (args) => {
+        if (environment === "server") {
+          return { path: SERVER_ONLY, namespace: SERVER_ONLY };
+        }
+
+        const cwd = build.initialOptions.absWorkingDir ?? process.cwd();
+        const importer = relative(cwd, args.importer);
+
+        return {
+          errors: [
+            {
+              text: `"${importer}" is server-only and cannot be imported by client code`,
+              detail: "Import it from server functions or server code only.",
+            },
+          ],
+        };
+      });
+
+      build.onLoad({ filter: /.*/, namespace: SERVER_ONLY }, () => ({
+        contents: "",
+        loader: "js",
+      }));
+    },
+  };
+}
@@ -0,0 +1,311 @@
+import MagicString from "magic-string";
+import { relative, sep } from "path";
+import * as ts from "typescript";
+
+/**
+ * @description
+ * Module the components are imported from.
+ */
+const FRAMEWORK = "@newstack/framework";
+
+/**
+ * @description
+ * Parses a file into a TypeScript AST and finds the classes extending Newstack.
+ * The transformations read the AST and edit the code through `MagicString`,
+ * so the untouched code keeps its positions and the edits get a source map.
+ *
+ * @param path The absolute path of the file.
+ * @param code The content of the file.
+ * @param root The project directory, the working directory of the build.
+ * @returns {NewstackSource} The parsed file.
+ */
+export function parse(
+  path: string,
+  code: string,
+  root: string,
+): NewstackSource {
+  const kind = path.endsWith("jsx") ? ts.ScriptKind.JSX : ts.ScriptKind.TSX;
+  const ast = ts.createSourceFile(
+    path,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    kind,
+  );
+
+  return {
+    path,
+    root,
+    ast,
+    code: new MagicString(code),
+    components: findComponents(ast),
+  };
+}
+
+/**
+ * @description
+ * Generates the code of a parsed file. When `sourcemap` is set and the code
+ * changed, a source map of the edits is inlined, which esbuild combines with
+ * its own so the output still points to the original lines.
+ *
+ * @returns {string} Updated code
+ */
+export function generate(source: NewstackSource, sourcemap = false): string {
+  const { code, path } = source;
+  if (!sourcemap || !code.hasChanged()) return code.toString();
+
+  const map = code.generateMap({
+    source: path,
+    includeContent: true,
+    hires: "boundary",
+  });
+
+  return `${code.toString()}\n//# sourceMappingURL=${map.toUrl()}\n`;
+}
+
+/**
+ * @description
+ * Walks every node of the AST, parents before their children.
+ */
+export function walk(node: ts.Node, visit: (node: ts.Node) => void) {
+  visit(node);
+  ts.forEachChild(node, (child) => walk(child, visit));
+}
+
+/**
+ * @description
+ * The path of a file relative to the project, the working directory of the
+ * build, with forward slashes, so it is the same on every machine.
+ *
+ * @param path The absolute path of the file.
+ * @param root The project directory.
+ * @returns The project path, such as `src/Profile.tsx`.
+ */
+export function projectPath(path: string, root: string): string {
+  return relative(root, path).split(sep).join("/");
+}
+
+/**
+ * @description
+ * Finds the position where static members can be added at the start of a class body.
+ */
+export function bodyStart(component: Component): number {
+  return component.node.members.pos;
+}
+
+/**
+ * @description
+ * Lists the classes extending Newstack, directly or through an alias of
+ * its import, such as `import { default as Base }` or `import * as ns`.
+ */
+function findComponents(ast: ts.SourceFile): Component[] {
+  const { names, namespaces } = frameworkImports(ast);
+  const components: Component[] = [];
+
+  const extendsNewstack = (node: ts.ClassLikeDeclaration) => {
+    const clause = node.heritageClauses?.find(
+      (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword,
+    );
+    const expression = clause?.types[0]?.expression;
+    if (!expression) return false;
+
+    if (ts.isIdentifier(expression)) return names.has(expression.text);
+
+    return (
+      ts.isPropertyAccessExpression(expression) &&
+      ts.isIdentifier(expression.expression) &&
+      namespaces.has(expression.expression.text) &&
+      ["Newstack", "default"].includes(expression.name.text)
+    );
+  };
+
+  walk(ast, (node) => {
+    if (!ts.isClassDeclaration(node) && !ts.isClassExpression(node)) return;
+    if (!extendsNewstack(node)) return;
+
+    components.push({
+      node,
+      name: classNameOf(node),
+      hash: staticHashOf(node),
+      serverFunctions: serverFunctionsOf(node),
+    });
+  });
+
+  return components;
+}
+
+/**
+ * @description
+ * Lists the local names of Newstack and the namespaces of the framework imports.
+ * `Newstack` is always included, as the classes of the framework extend it directly.
+ */
+function frameworkImports(ast: ts.SourceFile) {
+  const names = new Set(["Newstack"]);
+  const namespaces = new Set<string>();
+
+  for (const statement of ast.statements) {
+    if (!ts.isImportDeclaration(statement)) continue;
+    if (!ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    if (statement.moduleSpecifier.text !== FRAMEWORK) continue;
+
+    const clause = statement.importClause;
+    if (clause?.name) names.add(clause.name.text);
+
+    const bindings = clause?.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      namespaces.add(bindings.name.text);
+    }
+
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        const imported = element.propertyName ?? element.name;
+        if (["Newstack", "default"].includes(imported.text)) {
+          names.add(element.name.text);
+        }
+      }
+    }
+  }
+
+  return { names, namespaces };
+}
+
+/**
+ * @description
+ * The name of a class. Class expressions take the name of their variable,
+ * and anonymous default exports are named `default`.
+ */
+function classNameOf(node: ts.ClassLikeDeclaration): string {
+  if (node.name) return node.name.text;
+
+  const parent = node.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+
+  return "default";
+}
+
+/**
+ * @description
+ * The value of a `static hash = "..."` already written in the class.
+ */
+function staticHashOf(node: ts.ClassLikeDeclaration): string | undefined {
+  for (const member of node.members) {
+    if (!ts.isPropertyDeclaration(member) || !isStatic(member)) continue;
+    if (nameOf(member) !== "hash") continue;
+
+    const value = member.initializer;
+    if (value && ts.isStringLiteralLike(value)) return value.text;
+  }
+}
+
+/**
+ * @description
+ * Lists the server functions of a class: its static async methods, and
+ * its static properties holding an async function.
+ */
+function serverFunctionsOf(node: ts.ClassLikeDeclaration): ServerFunction[] {
+  const functions: ServerFunction[] = [];
+
+  for (const member of node.members) {
+    if (!isStatic(member)) continue;
+
+    const name = nameOf(member);
+    if (!name) continue;
+
+    if (ts.isMethodDeclaration(member) && member.body && isAsync(member)) {
+      functions.push({ name, node: member, keys: keysOf(member) });
+    }
+
+    const value = ts.isPropertyDeclaration(member) && member.initializer;
+    if (
+      value &&
+      (ts.isArrowFunction(value) || ts.isFunctionExpression(value)) &&
+      isAsync(value)
+    ) {
+      functions.push({ name, node: value, keys: keysOf(value) });
+    }
+  }
+
+  return functions;
+}
+
+/**
+ * @description
+ * The names destructured from the arguments of a server function, such as
+ * `name` and `ip` in `({ name, ip })`. When the arguments are not fully
+ * destructured, such as `(args)` or `({ name, ...rest })`, every argument is used.
+ */
+function keysOf(node: ts.SignatureDeclaration): string[] | undefined {
+  const pattern = node.parameters[0]?.name;
+  if (!pattern || !ts.isObjectBindingPattern(pattern)) return;
+
+  const keys: string[] = [];
+
+  for (const element of pattern.elements) {
+    if (element.dotDotDotToken) return;
+
+    const key = element.propertyName ?? element.name;
+    if (ts.isIdentifier(key) || ts.isStringLiteral(key)) keys.push(key.text);
+    else return;
+  }
+
+  return keys;
+}
+
+function nameOf(member: ts.ClassElement): string | undefined {
+  const name = member.name;
+  if (name && (ts.isIdentifier(name) || ts.isStringLiteral(name))) {
+    return name.text;
+  }
+}
+
+function isStatic(node: ts.Node): boolean {
+  return hasModifier(node, ts.SyntaxKind.StaticKeyword);
+}
+
+function isAsync(node: ts.Node): boolean {
+  return hasModifier(node, ts.SyntaxKind.AsyncKeyword);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  if (!ts.canHaveModifiers(node)) return false;
+
+  return !!ts.getModifiers(node)?.some((modifier) => modifier.kind === kind);
+}
+
+/* ---------- Types ---------- */
+
+/**
+ * @description
+ * A file parsed by the Newstack plugin.
+ */
+export type NewstackSource = {
+  path: string;
+  root: string;
+  ast: ts.SourceFile;
+  code: MagicString;
+  components: Component[];
+};
+
+/**
+ * @description
+ * A class extending Newstack. Its `hash` is set by the `Hasher`
+ * when the class does not declare one.
+ */
+export type Component = {
+  node: ts.ClassLikeDeclaration;
+  name: string;
+  hash?: string;
+  serverFunctions: ServerFunction[];
+};
+
+/**
+ * @description
+ * A static async method or function property of a component.
+ */
+export type ServerFunction = {
+  name: string;
+  node: ts.MethodDeclaration | ts.ArrowFunction | ts.FunctionExpression;
+  keys?: string[];
+};
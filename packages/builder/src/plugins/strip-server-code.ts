@@ -0,0 +1,234 @@
+import * as ts from "typescript";
+import { type NewstackSource, parse, walk } from "./source";
+
+/**
+ * @kind Client
+ *
+ * @description
+ * Removes the code of components guarded by `environment === "server"`,
+ * such as `if (environment === "server") { ... }` in a `prepare`, keeping
+ * their `else` branch. Then it removes the imports only used by the code
+ * removed from the client, including the server functions replaced by
+ * `ReplaceStaticMethods`, so database drivers, `fs` or secrets modules
+ * imported for them stay out of the client bundle.
+ */
+export function StripServerCode(source: NewstackSource) {
+  for (const component of source.components) {
+    const replaced = new Set<ts.Node>(
+      component.serverFunctions.map(({ node }) => node),
+    );
+
+    const strip = (node: ts.Node) => {
+      // Server functions are already replaced by `ReplaceStaticMethods`
+      if (replaced.has(node)) return;
+
+      if (ts.isIfStatement(node) && stripIfStatement(source, node, strip))
+        return;
+      if (
+        ts.isConditionalExpression(node) &&
+        stripConditional(source, node, strip)
+      ) {
+        return;
+      }
+
+      if (
+        ts.isBinaryExpression(node) &&
+        node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken &&
+        environmentOf(node.left) === "server"
+      ) {
+        source.code.overwrite(node.getStart(), node.end, "false");
+        return;
+      }
+
+      ts.forEachChild(node, strip);
+    };
+
+    strip(component.node);
+  }
+
+  removeUnusedImports(source);
+}
+
+/**
+ * @description
+ * Strips the server branch of an `if`, walking the branch kept.
+ *
+ * @returns Whether the statement was handled.
+ */
+function stripIfStatement(
+  source: NewstackSource,
+  node: ts.IfStatement,
+  strip: (node: ts.Node) => void,
+) {
+  const environment = environmentOf(node.expression);
+  if (!environment) return false;
+
+  const { thenStatement, elseStatement } = node;
+
+  if (environment === "server" && elseStatement) {
+    source.code.remove(node.getStart(), elseStatement.getStart());
+    strip(elseStatement);
+  } else if (environment === "server") {
+    // Keeps a statement, in case the `if` is the body of another one
+    source.code.overwrite(node.getStart(), node.end, "{}");
+  } else {
+    if (elseStatement) source.code.remove(thenStatement.end, node.end);
+    strip(thenStatement);
+  }
+
+  return true;
+}
+
+/**
+ * @description
+ * Strips the server branch of a ternary, walking the branch kept.
+ *
+ * @returns Whether the expression was handled.
+ */
+function stripConditional(
+  source: NewstackSource,
+  node: ts.ConditionalExpression,
+  strip: (node: ts.Node) => void,
+) {
+  const environment = environmentOf(node.condition);
+  if (!environment) return false;
+
+  const { whenTrue, whenFalse } = node;
+
+  if (environment === "server") {
+    source.code.remove(node.getStart(), whenFalse.getStart());
+    strip(whenFalse);
+  } else {
+    source.code.remove(node.getStart(), whenTrue.getStart());
+    source.code.remove(whenTrue.end, node.end);
+    strip(whenTrue);
+  }
+
+  return true;
+}
+
+/**
+ * @description
+ * The environment a condition such as `environment === "server"` or
+ * `this.context.environment !== "client"` holds in.
+ */
+function environmentOf(expression: ts.Expression): Environment | undefined {
+  const node = skipParentheses(expression);
+  if (!ts.isBinaryExpression(node)) return;
+
+  const operator = node.operatorToken.kind;
+  const equals =
+    operator === ts.SyntaxKind.EqualsEqualsEqualsToken ||
+    operator === ts.SyntaxKind.EqualsEqualsToken;
+  const differs =
+    operator === ts.SyntaxKind.ExclamationEqualsEqualsToken ||
+    operator === ts.SyntaxKind.ExclamationEqualsToken;
+  if (!equals && !differs) return;
+
+  const [reference, value] = ts.isStringLiteralLike(node.left)
+    ? [node.right, node.left]
+    : [node.left, node.right];
+
+  if (!isEnvironment(reference) || !ts.isStringLiteralLike(value)) return;
+  if (value.text !== "server" && value.text !== "client") return;
+
+  if (equals) return value.text;
+  return value.text === "server" ? "client" : "server";
+}
+
+function skipParentheses(expression: ts.Expression): ts.Expression {
+  let node = expression;
+  while (ts.isParenthesizedExpression(node)) node = node.expression;
+
+  return node;
+}
+
+function isEnvironment(node: ts.Expression): boolean {
+  if (ts.isIdentifier(node)) return node.text === "environment";
+
+  return (
+    ts.isPropertyAccessExpression(node) && node.name.text === "environment"
+  );
+}
+
+/**
+ * @description
+ * Removes the imports referenced by the original code but not by the
+ * updated one. Imports that were never used are left to esbuild.
+ */
+function removeUnusedImports(source: NewstackSource) {
+  if (!source.code.hasChanged()) return;
+
+  const before = referencesOf(source.ast);
+  const after = referencesOf(
+    parse(source.path, source.code.toString(), source.root).ast,
+  );
+  const removed = (name: ts.Identifier) =>
+    before.has(name.text) && !after.has(name.text);
+
+  for (const statement of source.ast.statements) {
+    if (!ts.isImportDeclaration(statement)) continue;
+
+    const clause = statement.importClause;
+    if (!clause || clause.isTypeOnly) continue;
+
+    const bindings = clause.namedBindings;
+    const named = bindings && ts.isNamedImports(bindings) ? bindings : null;
+    const names = [
+      clause.name,
+      bindings && ts.isNamespaceImport(bindings) ? bindings.name : null,
+      ...(named?.elements.map((element) => element.name) ?? []),
+    ].filter(Boolean);
+
+    if (names.every(removed)) {
+      source.code.remove(statement.getStart(), statement.end);
+      continue;
+    }
+
+    named?.elements.forEach((element, index, elements) => {
+      if (!removed(element.name)) return;
+
+      const next = elements[index + 1];
+      const previous = elements[index - 1];
+
+      if (next) source.code.remove(element.getStart(), next.getStart());
+      else if (previous) source.code.remove(previous.end, element.end);
+      else source.code.remove(element.getStart(), element.end);
+    });
+  }
+}
+
+/**
+ * @description
+ * Lists the names referenced in a file, outside of its imports.
+ * Property names, such as `name` in `this.name`, are not references.
+ */
+function referencesOf(ast: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+
+  walk(ast, (node) => {
+    if (!ts.isIdentifier(node)) return;
+
+    const parent = node.parent;
+    if (ts.isImportClause(parent) || ts.isImportSpecifier(parent)) return;
+    if (ts.isNamespaceImport(parent)) return;
+    if (ts.isPropertyAccessExpression(parent) && parent.name === node) return;
+    if (ts.isJsxAttribute(parent)) return;
+    if (
+      (ts.isPropertyAssignment(parent) ||
+        ts.isPropertyDeclaration(parent) ||
+        ts.isMethodDeclaration(parent)) &&
+      parent.name === node
+    ) {
+      return;
+    }
+
+    names.add(node.text);
+  });
+
+  return names;
+}
+
+/* ---------- Types ---------- */
+
+type Environment = "client" | "server";
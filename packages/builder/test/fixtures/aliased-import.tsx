@@ -0,0 +1,20 @@
+import Component, { default as Base } from "@newstack/framework";
+import * as framework from "@newstack/framework";
+
+export class Default extends Component {
+  static async load() {
+    return "SERVER_SECRET";
+  }
+}
+
+export class Named extends Base {
+  static async load() {
+    return "SERVER_SECRET";
+  }
+}
+
+export class Namespace extends framework.default {
+  static async load() {
+    return "SERVER_SECRET";
+  }
+}
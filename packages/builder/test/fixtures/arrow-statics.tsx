@@ -0,0 +1,15 @@
+import Newstack from "@newstack/framework";
+
+export class Arrows extends Newstack {
+  static load = async ({ id }) => {
+    return { id, secret: "SERVER_SECRET" };
+  };
+
+  // biome-ignore lint/complexity/useArrowFunction: function expressions are server functions too
+  static save = async function ({ name }) {
+    return { name, secret: "SERVER_SECRET" };
+  };
+
+  // Not a server function, kept in the client
+  static format = (value: string) => value.trim();
+}
@@ -0,0 +1,15 @@
+import Newstack from "@newstack/framework";
+
+export class Braces extends Newstack {
+  closing = "}";
+  template = `} ${"{"} }`;
+
+  static async load({ id }) {
+    const secret = "SERVER_SECRET }";
+    return { id, secret };
+  }
+
+  render() {
+    return <p>{this.closing}</p>;
+  }
+}
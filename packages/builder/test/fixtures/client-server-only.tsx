@@ -0,0 +1,8 @@
+import Newstack from "@newstack/framework";
+import { query } from "./server/database";
+
+export class Leak extends Newstack {
+  render() {
+    return <p>{query("select secret")}</p>;
+  }
+}
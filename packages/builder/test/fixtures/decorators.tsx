@@ -0,0 +1,15 @@
+import Newstack from "@newstack/framework";
+
+const logged = <T,>(value: T): T => value;
+
+@logged
+export class Decorated extends Newstack {
+  @logged
+  static async load({ id }) {
+    return { id, secret: "SERVER_SECRET" };
+  }
+
+  render() {
+    return <p>Decorated</p>;
+  }
+}
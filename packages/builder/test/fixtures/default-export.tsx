@@ -0,0 +1,11 @@
+import Newstack from "@newstack/framework";
+
+export default class extends Newstack {
+  static async load() {
+    return "SERVER_SECRET";
+  }
+
+  render() {
+    return <p>Anonymous</p>;
+  }
+}
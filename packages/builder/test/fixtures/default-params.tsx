@@ -0,0 +1,7 @@
+import Newstack from "@newstack/framework";
+
+export class Defaults extends Newstack {
+  static async search({ query = "SERVER_SECRET", page = 1 } = {}) {
+    return { query, page };
+  }
+}
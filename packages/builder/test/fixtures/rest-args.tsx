@@ -0,0 +1,7 @@
+import Newstack from "@newstack/framework";
+
+export class Rest extends Newstack {
+  static async search({ query, ...filters }) {
+    return { query, filters, secret: "SERVER_SECRET" };
+  }
+}
@@ -0,0 +1,22 @@
+import Newstack, { type NewstackClientContext } from "@newstack/framework";
+import { query } from "./server/database";
+
+export class Users extends Newstack {
+  users: string[] = [];
+
+  static async load() {
+    return [query("select name from users")];
+  }
+
+  async prepare({ environment }: NewstackClientContext) {
+    if (environment === "server") {
+      this.users = [query("select name from admins")];
+    } else {
+      this.users = await Users.load();
+    }
+  }
+
+  render() {
+    return <ul data-client="CLIENT_CODE">{this.users.join(", ")}</ul>;
+  }
+}
@@ -0,0 +1,5 @@
+import "server-only";
+
+export function query(sql: string) {
+  return `SERVER_SECRET ${sql}`;
+}
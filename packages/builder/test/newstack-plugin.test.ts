@@ -0,0 +1,148 @@
+import { createHash } from "crypto";
+import { build } from "esbuild";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { NewstackPlugin } from "../src/plugins";
+
+const FIXTURES = join(__dirname, "fixtures");
+
+/**
+ * @description
+ * Builds a fixture with the Newstack plugin of an environment, without bundling it.
+ */
+async function transform(
+  fixture: string,
+  environment: "client" | "server",
+  sourcemap?: "inline",
+  absWorkingDir?: string,
+): Promise<string> {
+  const result = await build({
+    entryPoints: [join(FIXTURES, fixture)],
+    write: false,
+    format: "esm",
+    target: "esnext",
+    jsxFactory: "h",
+    sourcemap,
+    absWorkingDir,
+    plugins: [NewstackPlugin(environment)],
+    logLevel: "silent",
+  });
+
+  return result.outputFiles[0].text;
+}
+
+const hashesOf = (code: string) =>
+  Array.from(code.matchAll(/static hash = "(\w+)";/g), ([, hash]) => hash);
+
+/**
+ * @description
+ * Expects the server functions of a fixture to be replaced by calls in the client,
+ * without their body, and to be listed and kept in the server.
+ */
+async function expectServerFunctions(fixture: string, names: string[]) {
+  const client = await transform(fixture, "client");
+  const server = await transform(fixture, "server");
+
+  const hashes = hashesOf(client);
+  expect(hashes.length).toBeGreaterThan(0);
+  expect(hashesOf(server)).toEqual(hashes);
+
+  for (const name of names) {
+    expect(client).toMatch(
+      new RegExp(`__callServerFunction\\("(${hashes.join("|")})", "${name}"`),
+    );
+  }
+
+  expect(client).not.toContain("SERVER_SECRET");
+  expect(server).toContain("SERVER_SECRET");
+  const listed = names.map((name) => `"${name}"`).join(", ");
+  expect(server).toContain(`static serverFunctions = [${listed}];`);
+
+  return { client, server };
+}
+
+describe("NewstackPlugin", () => {
+  it("keeps class bodies containing braces in strings", async () => {
+    const { client } = await expectServerFunctions("brace-in-body.tsx", [
+      "load",
+    ]);
+
+    expect(client).toContain('closing = "}";');
+    expect(client).toContain('template = `} ${"{"} }`;');
+    expect(client).toContain('"load", args, ["id"]);');
+  });
+
+  it("transforms anonymous default exported classes", async () => {
+    await expectServerFunctions("default-export.tsx", ["load"]);
+  });
+
+  it("transforms named default exported classes", async () => {
+    await expectServerFunctions("default-export-named.tsx", ["load"]);
+  });
+
+  it("transforms classes extending aliased and namespace imports", async () => {
+    const { client } = await expectServerFunctions("aliased-import.tsx", [
+      "load",
+    ]);
+
+    expect(new Set(hashesOf(client)).size).toBe(3);
+  });
+
+  it("transforms decorated classes and server functions", async () => {
+    const { client } = await expectServerFunctions("decorators.tsx", ["load"]);
+
+    expect(client).toContain("@logged\nclass Decorated");
+    expect(client).toContain("@logged\n  static async load(args)");
+  });
+
+  it("transforms arrow and function expression statics", async () => {
+    const { client } = await expectServerFunctions("arrow-statics.tsx", [
+      "load",
+      "save",
+    ]);
+
+    expect(client).toContain("static format = (value) => value.trim();");
+  });
+
+  it("drops default parameter values from the client", async () => {
+    const { client } = await expectServerFunctions("default-params.tsx", [
+      "search",
+    ]);
+
+    expect(client).toContain('"search", args, ["query", "page"]);');
+  });
+
+  it("sends every argument of server functions with rest args", async () => {
+    const { client } = await expectServerFunctions("rest-args.tsx", ["search"]);
+
+    expect(client).toContain('"search", args);');
+  });
+
+  it("hashes components by their path relative to the working directory of the build", async () => {
+    const client = await transform(
+      "brace-in-body.tsx",
+      "client",
+      undefined,
+      FIXTURES,
+    );
+    const hash = createHash("sha1")
+      .update("brace-in-body.tsx:Braces")
+      .digest("hex")
+      .slice(0, 8);
+
+    expect(hashesOf(client)).toEqual([hash]);
+  });
+
+  it("keeps a source map of the original file", async () => {
+    const client = await transform("brace-in-body.tsx", "client", "inline");
+    const [, base64] = client.match(/sourceMappingURL=data:.*base64,(.*)/);
+    const map = JSON.parse(Buffer.from(base64, "base64").toString());
+
+    expect(map.sources).toEqual([
+      expect.stringContaining("fixtures/brace-in-body.tsx"),
+    ]);
+    expect(map.sourcesContent[0]).toContain(
+      'const secret = "SERVER_SECRET }";',
+    );
+  });
+});
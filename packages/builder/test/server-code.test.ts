@@ -0,0 +1,62 @@
+import { build } from "esbuild";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { NewstackPlugin, ServerOnly } from "../src/plugins";
+
+const FIXTURES = join(__dirname, "fixtures");
+
+/**
+ * @description
+ * Bundles a fixture with the Newstack and server-only plugins of an environment,
+ * keeping the framework external.
+ */
+async function bundle(fixture: string, environment: "client" | "server") {
+  const result = await build({
+    entryPoints: [join(FIXTURES, fixture)],
+    bundle: true,
+    write: false,
+    format: "esm",
+    target: "esnext",
+    jsxFactory: "h",
+    external: ["@newstack/framework"],
+    plugins: [NewstackPlugin(environment), ServerOnly(environment)],
+    logLevel: "silent",
+  });
+
+  return result.outputFiles[0].text;
+}
+
+describe("StripServerCode", () => {
+  it("removes server functions, server branches and their imports from the client", async () => {
+    const client = await bundle("server-code.tsx", "client");
+
+    expect(client).not.toContain("SERVER_SECRET");
+    expect(client).not.toContain("select name");
+    expect(client).toContain('__callServerFunction("');
+    expect(client).toMatch(/this\.users = await \w+\.load\(\);/);
+    expect(client).toContain('"data-client": "CLIENT_CODE"');
+  });
+
+  it("keeps the server code in the server", async () => {
+    const server = await bundle("server-code.tsx", "server");
+
+    expect(server).toContain("SERVER_SECRET");
+    expect(server).toContain("select name from users");
+    expect(server).toContain("select name from admins");
+  });
+});
+
+describe("ServerOnly", () => {
+  it("fails the client build when client code imports a server-only module", async () => {
+    await expect(bundle("client-server-only.tsx", "client")).rejects.toThrow(
+      /server\/database\.ts" is server-only and cannot be imported by client code/,
+    );
+  });
+
+  it("resolves the marker to an empty module in the server", async () => {
+    const server = await bundle("client-server-only.tsx", "server");
+
+    expect(server).toContain("SERVER_SECRET");
+    expect(server).not.toContain('"server-only"');
+  });
+});
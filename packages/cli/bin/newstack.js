@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { run } from "../dist/newstack.js";
+
+await run(process.argv.slice(2));
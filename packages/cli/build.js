@@ -0,0 +1,19 @@
+import { build } from "esbuild";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const root = dirname(fileURLToPath(import.meta.url));
+
+// The CLI and the builder are TypeScript sources, like the other packages,
+// so they are bundled into the entry of the bin once, before it is published.
+// Their dependencies are resolved by Node.
+await build({
+  entryPoints: [join(root, "src", "index.ts")],
+  outfile: join(root, "dist", "newstack.js"),
+  bundle: true,
+  platform: "node",
+  format: "esm",
+  target: "node18",
+  external: ["esbuild", "typescript", "magic-string", "ws"],
+  logLevel: "warning",
+});
@@ -0,0 +1,37 @@
+import { build as esbuild } from "esbuild";
+import { client, server } from "../options";
+
+/**
+ * @description
+ * Builds the server and the client of the project in the current directory
+ * into `dist`, from its `server.ts` and `client.ts` entries.
+ *
+ * @example
+ * ```sh
+ * newstack build --production
+ * ```
+ *
+ * @param options Whether the build is minified for production.
+ */
+export async function build({ production = false }: BuildCommandOptions = {}) {
+  console.time("Time taken");
+
+  console.log("Building server...");
+  await esbuild(server(production));
+
+  console.log("Building client...");
+  await esbuild(client(production));
+
+  console.log("Build completed successfully!");
+  console.timeEnd("Time taken");
+}
+
+/* ---------- Types ---------- */
+
+export type BuildCommandOptions = {
+  /**
+   * @description
+   * Minifies the output, false by default.
+   */
+  production?: boolean;
+};
@@ -0,0 +1,78 @@
+import { existsSync } from "fs";
+import { cp, readFile, readdir, rename, writeFile } from "fs/promises";
+import { basename, dirname, join, relative, resolve } from "path";
+import { fileURLToPath } from "url";
+
+/**
+ * @description
+ * Templates bundled with the CLI, so projects are created offline.
+ */
+const TEMPLATES = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  "../templates",
+);
+
+/**
+ * @description
+ * Files renamed once copied. npm leaves `.gitignore` files out of packages.
+ */
+const RENAMED = { gitignore: ".gitignore" };
+
+/**
+ * @description
+ * Creates a project from one of the bundled templates, with its Biome config:
+ * - `minimal`: a single component.
+ * - `example`: pages, lazy routes and a server function, like the example application.
+ *
+ * @example
+ * ```sh
+ * newstack create my-app --template example
+ * ```
+ *
+ * @param name The directory of the project, also its package name.
+ * @param options The template of the project, `minimal` by default.
+ */
+export async function create(
+  name: string,
+  { template = "minimal" }: CreateCommandOptions = {},
+) {
+  const templates = await readdir(TEMPLATES);
+  if (!templates.includes(template)) {
+    throw new Error(
+      `Unknown template "${template}", use one of: ${templates.join(", ")}`,
+    );
+  }
+
+  const target = resolve(name);
+  if (existsSync(target) && (await readdir(target)).length) {
+    throw new Error(`${name} already exists and is not empty`);
+  }
+
+  await cp(join(TEMPLATES, template), target, { recursive: true });
+
+  for (const [from, to] of Object.entries(RENAMED)) {
+    if (existsSync(join(target, from))) {
+      await rename(join(target, from), join(target, to));
+    }
+  }
+
+  const manifest = join(target, "package.json");
+  const contents = await readFile(manifest, "utf8");
+  await writeFile(manifest, contents.replace("{{name}}", basename(target)));
+
+  console.log(`Created ${basename(target)} from the ${template} template.`);
+  console.log("\nNext steps:");
+  console.log(`  cd ${relative(process.cwd(), target) || "."}`);
+  console.log("  npm install");
+  console.log("  npm run dev");
+}
+
+/* ---------- Types ---------- */
+
+export type CreateCommandOptions = {
+  /**
+   * @description
+   * Name of the template, `minimal` by default.
+   */
+  template?: string;
+};
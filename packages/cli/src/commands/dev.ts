@@ -0,0 +1,17 @@
+import { dev as watch } from "@newstack/builder";
+import { external } from "../options";
+
+/**
+ * @description
+ * Starts the dev server of the project in the current directory, which
+ * rebuilds it on every change, restarts the server and hot reloads the
+ * components in the browser.
+ *
+ * @example
+ * ```sh
+ * newstack dev
+ * ```
+ */
+export async function dev() {
+  await watch({ server: { external }, client: { external } });
+}
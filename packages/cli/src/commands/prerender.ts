@@ -0,0 +1,27 @@
+import { type BuildCommandOptions, build } from "./build";
+import { start } from "./start";
+
+/**
+ * @description
+ * Builds the project in the current directory, then prerenders its routes
+ * into static HTML files with `node dist/server.js prerender`. The server
+ * entry of the project handles the `prerender` argument, setting the params
+ * of the dynamic routes.
+ *
+ * @example
+ * ```sh
+ * newstack prerender /about /profile/1
+ * ```
+ *
+ * @param paths The paths to prerender, every route when empty.
+ * @param options Whether the build is minified for production.
+ * @returns The exit code of the server.
+ */
+export async function prerender(
+  paths: string[] = [],
+  options: BuildCommandOptions = {},
+): Promise<number> {
+  await build(options);
+
+  return start(["prerender", ...paths]);
+}
@@ -0,0 +1,36 @@
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import { resolve } from "path";
+
+/**
+ * @description
+ * Path of the built server, relative to the project.
+ */
+const SERVER = "dist/server.js";
+
+/**
+ * @description
+ * Starts the built server of the project in the current directory.
+ *
+ * @example
+ * ```sh
+ * newstack start
+ * ```
+ *
+ * @param args Arguments given to the server, such as `prerender`.
+ * @returns The exit code of the server.
+ */
+export async function start(args: string[] = []): Promise<number> {
+  const file = resolve(SERVER);
+
+  if (!existsSync(file)) {
+    throw new Error(`${SERVER} not found, run \`newstack build\` first`);
+  }
+
+  const app = spawn(process.execPath, [file, ...args], { stdio: "inherit" });
+
+  return new Promise((done, fail) => {
+    app.once("error", fail);
+    app.once("exit", (code) => done(code ?? 1));
+  });
+}
@@ -0,0 +1,81 @@
+import { parseArgs } from "util";
+import { build } from "./commands/build";
+import { create } from "./commands/create";
+import { dev } from "./commands/dev";
+import { prerender } from "./commands/prerender";
+import { start } from "./commands/start";
+export { build, create, dev, prerender, start };
+export type { BuildCommandOptions } from "./commands/build";
+export type { CreateCommandOptions } from "./commands/create";
+
+const USAGE = `Usage: newstack <command> [options]
+
+Commands:
+  create <name>         Creates a project from a template
+    --template <name>   minimal (default) or example
+  dev                   Starts the dev server with hot reload
+  build                 Builds the server and the client into dist
+    --production        Minifies the build
+  start                 Starts the built server
+  prerender [paths...]  Builds, then prerenders the routes into static files
+    --production        Minifies the build
+`;
+
+/**
+ * @description
+ * Runs the `newstack` binary. Commands run in the project of the current
+ * directory, wrapping the builder options, so projects do not keep their
+ * own build script. Failures are printed and set the exit code.
+ *
+ * @example
+ * ```ts
+ * await run(["build", "--production"]);
+ * ```
+ *
+ * @param argv The arguments of the binary, without the node and script paths.
+ */
+export async function run(argv: string[]) {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        template: { type: "string", short: "t" },
+        production: { type: "boolean", short: "p" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+
+    const [command, ...args] = positionals;
+    const { production, template } = values;
+
+    if (values.help || !command) {
+      console.log(USAGE);
+      return;
+    }
+
+    switch (command) {
+      case "create":
+        if (!args[0]) throw new Error("Missing the name of the project");
+        await create(args[0], { template });
+        break;
+      case "dev":
+        await dev();
+        break;
+      case "build":
+        await build({ production });
+        break;
+      case "start":
+        process.exitCode = await start(args);
+        break;
+      case "prerender":
+        process.exitCode = await prerender(args, { production });
+        break;
+      default:
+        throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
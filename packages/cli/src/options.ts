@@ -0,0 +1,39 @@
+import { builder } from "@newstack/builder";
+import type { BuildOptions } from "esbuild";
+
+/**
+ * @description
+ * Packages left out of the server and client bundles of a project.
+ */
+export const external = ["esbuild", "@newstack/builder"];
+
+/**
+ * @description
+ * Build options for the server of a project, based on the builder ones.
+ *
+ * @param production Whether the output is minified.
+ */
+export function server(production: boolean): BuildOptions {
+  return {
+    ...builder.server,
+    minify: production,
+    external,
+  };
+}
+
+/**
+ * @description
+ * Build options for the client of a project, based on the builder ones.
+ * Production builds also drop the legal comments.
+ *
+ * @param production Whether the output is minified.
+ */
+export function client(production: boolean): BuildOptions {
+  return {
+    ...builder.client,
+    ignoreAnnotations: production,
+    legalComments: production ? "none" : "external",
+    minify: production,
+    external,
+  };
+}
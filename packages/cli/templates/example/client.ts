@@ -0,0 +1,5 @@
+import { NewstackClient } from "@newstack/framework";
+import { Application } from "./src/Application";
+
+const app = new Application();
+new NewstackClient().start(app);
@@ -0,0 +1,17 @@
+import { NewstackServer } from "@newstack/framework/server";
+import { Application } from "./src/Application";
+
+const app = new Application();
+const [command, ...paths] = process.argv.slice(2);
+
+if (command === "prerender") {
+  // Prerenders every route, or only the given paths: `newstack prerender /about`
+  new NewstackServer()
+    .prerender(app, {
+      params: { "/profile/:id": [{ id: "1" }, { id: "2" }] },
+      paths: paths.length ? paths : undefined,
+    })
+    .then((files) => console.log(`Prerendered ${files.length} pages`));
+} else {
+  new NewstackServer().start(app);
+}
@@ -0,0 +1,54 @@
+/* ---------- Internal ---------- */
+import Newstack, {
+  type NewstackClientContext,
+  type NewstackServerContext,
+} from "@newstack/framework";
+import { greet } from "./server/greetings";
+
+/**
+ * @description
+ * This is the About page of the application, calling a server function.
+ */
+export class About extends Newstack {
+  msg: string;
+
+  /**
+   * @description
+   * Server function called from the client. In the client bundle it is
+   * replaced by a fetch call to the server, which executes it. The server
+   * context of the call, such as the client IP, is merged into the arguments.
+   */
+  static async Greet({
+    name,
+    ip,
+  }: { name: string } & Partial<NewstackServerContext>) {
+    return greet(name, ip);
+  }
+
+  prepare({ page }: NewstackClientContext) {
+    page.title = "About";
+    page.description = "Learn more about this application.";
+  }
+
+  async callServerFunction() {
+    this.msg = await About.Greet({ name: "Newstack User" });
+  }
+
+  render() {
+    return (
+      <div>
+        <h1>About</h1>
+
+        <div>
+          Server message: <pre>{this.msg || "..."}</pre>
+        </div>
+
+        <button type="button" onclick={() => this.callServerFunction()}>
+          Call server function
+        </button>
+
+        <a href="/">Home</a>
+      </div>
+    );
+  }
+}
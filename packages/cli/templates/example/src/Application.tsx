@@ -0,0 +1,29 @@
+/* ---------- Internal ---------- */
+import Newstack, { lazy } from "@newstack/framework";
+
+/* ---------- Pages ---------- */
+import { Home } from "./Home";
+import { NotFound } from "./NotFound";
+
+// Pages split into their own chunk, loaded when their route is rendered
+const About = lazy(() => import("./About"));
+const Profile = lazy(() => import("./Profile"), {
+  fallback: <p>Loading profile...</p>,
+});
+
+/**
+ * @description
+ * This is the application entrypoint component, rendering a page per route.
+ */
+export class Application extends Newstack {
+  render() {
+    return (
+      <main>
+        <Home route="/" />
+        <About route="/about" />
+        <Profile route="/profile/:id" />
+        <NotFound route="*" />
+      </main>
+    );
+  }
+}
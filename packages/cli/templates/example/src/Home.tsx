@@ -0,0 +1,36 @@
+/* ---------- Internal ---------- */
+import Newstack, { type NewstackClientContext } from "@newstack/framework";
+
+/* ---------- Components ---------- */
+import { Counter } from "./components/Counter";
+
+/**
+ * @description
+ * This is the Home page of the application, linking to the other pages.
+ */
+export class Home extends Newstack {
+  prepare({ page }: NewstackClientContext) {
+    page.title = "Newstack Application";
+    page.description = "An application made with Newstack.";
+  }
+
+  render() {
+    return (
+      <div>
+        <h1>Welcome to Newstack!</h1>
+
+        <p>Edit src/Home.tsx and save to see it update.</p>
+
+        <Counter title="First counter" />
+        <Counter title="Second counter" />
+
+        <a href="/about" prefetch>
+          About
+        </a>
+        <a href="/profile/1" prefetch="viewport">
+          Profile 1
+        </a>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,24 @@
+/* ---------- Internal ---------- */
+import Newstack, { type NewstackClientContext } from "@newstack/framework";
+
+/**
+ * @description
+ * This is the page rendered when no other route matches the path.
+ * The server responds to it with a 404 status.
+ */
+export class NotFound extends Newstack {
+  prepare({ page }: NewstackClientContext) {
+    page.title = "Page Not Found";
+    page.description = "The page you are looking for does not exist.";
+  }
+
+  render({ router }: NewstackClientContext) {
+    return (
+      <div>
+        <h1>Page Not Found</h1>
+        <p>There is nothing at {router.path}.</p>
+        <a href="/">Home</a>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,22 @@
+/* ---------- Internal ---------- */
+import Newstack, { type NewstackClientContext } from "@newstack/framework";
+
+/**
+ * @description
+ * This is the Profile page of the application, rendering the `id` param of its route.
+ */
+export class Profile extends Newstack {
+  prepare({ page, params }: NewstackClientContext) {
+    page.title = `Profile ${params.id}`;
+    page.description = "User profile information.";
+  }
+
+  render({ params }: NewstackClientContext) {
+    return (
+      <div>
+        <h1>Profile {params.id}</h1>
+        <a href="/">Home</a>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import Newstack, { type NewstackClientContext } from "@newstack/framework";
+
+type CounterProps = {
+  /** Title shown above the counter */
+  title?: string;
+};
+
+/**
+ * @description
+ * A counter that grows as we click.
+ * Each rendered `<Counter />` keeps its own count.
+ */
+export class Counter extends Newstack<CounterProps> {
+  count = 0;
+
+  render({ title }: NewstackClientContext<CounterProps>) {
+    return (
+      <div>
+        <h2>{title || "Counter"}</h2>
+
+        <button type="button" onclick={() => this.count++}>
+          Clicked {this.count} times
+        </button>
+      </div>
+    );
+  }
+}
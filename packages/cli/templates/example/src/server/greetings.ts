@@ -0,0 +1,11 @@
+/* ---------- External ---------- */
+import "server-only";
+
+/**
+ * @description
+ * Greets a user from the server. The module is marked as server-only, so
+ * importing it from client code fails the build.
+ */
+export function greet(name: string, ip: string): string {
+  return `Hello from the server, ${name}! Your IP is ${ip}.`;
+}
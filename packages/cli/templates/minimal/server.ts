@@ -0,0 +1,14 @@
+import { NewstackServer } from "@newstack/framework/server";
+import { Application } from "./src/Application";
+
+const app = new Application();
+const [command, ...paths] = process.argv.slice(2);
+
+if (command === "prerender") {
+  // The application has no routes, so its single page is prerendered by default
+  new NewstackServer()
+    .prerender(app, { paths: paths.length ? paths : ["/"] })
+    .then((files) => console.log(`Prerendered ${files.length} pages`));
+} else {
+  new NewstackServer().start(app);
+}
@@ -0,0 +1,30 @@
+/* ---------- Internal ---------- */
+import Newstack, { type NewstackClientContext } from "@newstack/framework";
+
+/**
+ * @description
+ * This is the application entrypoint component.
+ * Its state is kept on the instance, and every change renders it again.
+ */
+export class Application extends Newstack {
+  count = 0;
+
+  prepare({ page }: NewstackClientContext) {
+    page.title = "Newstack";
+    page.description = "A Newstack application.";
+  }
+
+  render() {
+    return (
+      <main>
+        <h1>Welcome to Newstack!</h1>
+
+        <p>Edit src/Application.tsx and save to see it update.</p>
+
+        <button type="button" onclick={() => this.count++}>
+          Clicked {this.count} times
+        </button>
+      </main>
+    );
+  }
+}
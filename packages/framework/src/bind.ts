@@ -0,0 +1,104 @@
+import type { RenderedNode } from "./dom";
+
+/**
+ * @description
+ * Object and property pair that `bind={this.name}` is compiled into by the builder.
+ */
+export type NewstackBind = {
+  object: any;
+  property: string | number;
+};
+
+/**
+ * @description
+ * Returns the current value of a bind.
+ */
+export function bindValue(bind: NewstackBind): unknown {
+  return bind?.object?.[bind.property];
+}
+
+/**
+ * @description
+ * Adds the value and the event handler of a bind to the attributes of a form element.
+ * Inputs and textareas are synced with `oninput`, while checkboxes, radios and selects
+ * are synced with `onchange`. Handlers already present are still called after the state is set.
+ *
+ * @param type The element tag name.
+ * @param attributes The element attributes, without `bind`.
+ * @param bind The bind object and property.
+ * @returns The attributes with the bound value and event handler.
+ */
+export function bindAttributes(
+  type: string,
+  attributes: Record<string, unknown>,
+  bind: NewstackBind,
+): Record<string, unknown> {
+  const value = bindValue(bind);
+  const input = type === "input" ? String(attributes.type ?? "text") : type;
+  const event = ["checkbox", "radio", "select"].includes(input)
+    ? "onchange"
+    : "oninput";
+
+  const handler = attributes[event] as ((e: Event) => unknown) | undefined;
+  const bound = { ...attributes };
+
+  if (input === "checkbox") {
+    bound.checked = Boolean(value);
+  } else if (input === "radio") {
+    bound.checked = String(value) === String(attributes.value);
+  } else if (input !== "select") {
+    // Selects are synced through the `selected` attribute of their options
+    bound.value = value ?? "";
+  }
+
+  bound[event] = (e: Event) => {
+    const target = e.target as HTMLInputElement & HTMLSelectElement;
+
+    if (input === "checkbox") {
+      bind.object[bind.property] = target.checked;
+    } else if (input === "radio") {
+      if (target.checked) bind.object[bind.property] = attributes.value;
+    } else if (input === "select" && target.multiple) {
+      bind.object[bind.property] = Array.from(target.selectedOptions).map(
+        (option) => option.value,
+      );
+    } else {
+      bind.object[bind.property] =
+        typeof value === "number" ? Number(target.value) : target.value;
+    }
+
+    return handler?.(e);
+  };
+
+  return bound;
+}
+
+/**
+ * @description
+ * Marks the options of a bound select whose value matches the bind value as selected.
+ *
+ * @param children The rendered children of the select.
+ * @param bind The bind object and property.
+ */
+export function bindOptions(children: RenderedNode[], bind: NewstackBind) {
+  const value = bindValue(bind);
+  const selected = (Array.isArray(value) ? value : [value]).map(String);
+
+  for (const child of children) {
+    if (child.type === "optgroup") {
+      bindOptions(child.children, bind);
+      continue;
+    }
+
+    if (child.type !== "option") continue;
+
+    const option = child.props.value ?? textOf(child);
+    child.props = { ...child.props, selected: selected.includes(`${option}`) };
+  }
+}
+
+function textOf(node: RenderedNode): string {
+  if (node.type === "#text") return node.text;
+
+  return node.children.map(textOf).join("");
+}
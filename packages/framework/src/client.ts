@@ -1,6 +1,22 @@
 import { proxifyContext } from "./context";
 import type { Newstack, NewstackClientContext } from "./core";
+import { hotReload } from "./hmr";
+import { isLazyComponent } from "./lazy";
 import { Renderer } from "./renderer";
+import { matchRoute, queryParams } from "./router";
+import { prefetchServerFunctions } from "./server-functions";
+
+/**
+ * @description
+ * Redirects a single navigation can go through before it is cancelled.
+ */
+const MAX_REDIRECTS = 10;
+
+/**
+ * @description
+ * A path is prefetched at most once in this time, in milliseconds.
+ */
+const PREFETCH_INTERVAL = 30_000;
 
 /**
  * @description
@@ -8,6 +24,13 @@ import { Renderer } from "./renderer";
  * It handles rendering the application, managing the client-side state, and routing.
  */
 export class NewstackClient {
+  /**
+   * @description
+   * Whether a client is started. The client entry evaluated again on hot reload
+   * does not start a second one.
+   */
+  private static started = false;
+
   /**
    * @description
    * The root HTML element where the Newstack application is rendered.
@@ -35,6 +58,42 @@ export class NewstackClient {
    */
   renderer: Renderer;
 
+  /**
+   * @description
+   * Whether a route is being rendered, and the path it redirects to, if any.
+   * Components redirecting while they start replace the path being rendered.
+   */
+  private rendering = false;
+  private redirectTo: string | null = null;
+
+  /**
+   * @description
+   * Key and position of the current history entry, and the scroll positions of the
+   * entries that were left, restored when they are navigated back or forward to.
+   */
+  private historyKey: string;
+  private historyIndex = 0;
+  private scrollPositions = new Map<string, [number, number]>();
+
+  /**
+   * @description
+   * Id of the latest navigation, so a navigation started while the guards of
+   * another one are running supersedes it. Set while a cancelled back or forward
+   * navigation is moved back in the history, so it is not handled again.
+   */
+  private navigationId = 0;
+  private restoring = false;
+
+  /**
+   * @description
+   * How links without a `prefetch` attribute are prefetched, the time each path was
+   * last prefetched at, and the observer of the links prefetched when they are visible.
+   */
+  private prefetchMode: PrefetchMode | false = false;
+  private prefetched = new Map<string, number>();
+  private linkObserver?: IntersectionObserver;
+  private observedLinks = new WeakSet<Element>();
+
   constructor() {
     this.root = document.getElementById("app") as HTMLElement;
     if (!this.root) {
@@ -51,12 +110,17 @@ export class NewstackClient {
 
     const router = {
       url: location.href,
-      path: location.pathname,
+      path: currentPath(),
       base: location.origin,
+      event: "load",
+      previous: "",
+      navigating: false,
+      next: "",
     } as NewstackClientContext["router"];
 
     const ctx: Partial<NewstackClientContext> = {
       environment: "client",
+      path: currentPath(),
       page,
       router,
       params: {},
@@ -71,149 +135,567 @@ export class NewstackClient {
    * @description
    * Starts the Newstack application on the client side.
    * This method hydrates the application tree into the root element,
-   * sets up client-side routing, and patches links to handle navigation without full page reloads.
+   * sets up client-side routing, and intercepts same-origin links to handle
+   * navigation without full page reloads.
+   * The lazy components rendered by the current route are loaded first, so the
+   * page rendered by the server is not replaced by their fallback.
    *
    * @param app The Newstack application instance to start on the client side.
+   * @param options How links without a `prefetch` attribute are prefetched.
    */
-  start(app: Newstack) {
+  async start(app: Newstack, options: NewstackClientOptions = {}) {
+    if (NewstackClient.started) return;
+    NewstackClient.started = true;
+
     this.app = app;
+    this.prefetchMode = options.prefetch ?? false;
     this.renderer.setupAllComponents(this.app);
 
     this.app.prepare?.(this.context);
-    this.renderRoute(location.pathname);
+    await this.renderer.loadLazyComponents(() => this.app.render(this.context));
+
+    // Scroll positions are restored by the router on back and forward navigation
+    history.scrollRestoration = "manual";
+    this.historyKey = history.state?.key ?? createHistoryKey();
+    this.historyIndex = history.state?.index ?? 0;
+    history.replaceState(this.historyState(), "");
+
+    document.addEventListener("click", (event) => this.handleClick(event));
+    window.addEventListener("popstate", (event) => this.handlePopState(event));
+
+    for (const type of ["mouseover", "focusin", "touchstart"]) {
+      document.addEventListener(type, (event) => this.handleIntent(event), {
+        passive: true,
+      });
+    }
+
+    if (typeof IntersectionObserver !== "undefined") {
+      this.linkObserver = new IntersectionObserver((entries) => {
+        for (const { target, isIntersecting } of entries) {
+          if (!isIntersecting) continue;
+
+          this.linkObserver.unobserve(target);
+          this.prefetch((target as HTMLAnchorElement).href);
+        }
+      });
+
+      new MutationObserver(() => this.observeLinks()).observe(this.root, {
+        childList: true,
+        subtree: true,
+      });
+    }
+
+    this.renderRoute(currentPath());
     this.app.hydrate?.(this.context);
+
+    if (location.hash) this.restoreScroll(location.hash);
+    this.observeLinks();
+    this.afterNavigate();
+
+    // Set by the server started by the dev server
+    const hmr = (window as { __NEWSTACK_HMR__?: string }).__NEWSTACK_HMR__;
+    if (hmr) hotReload(this, hmr);
+  }
+
+  /**
+   * @description
+   * Prefetches a path: the chunks of the lazy components of its routes are loaded and
+   * the `prepare` of its route components runs, so the server function calls they make
+   * right away are reused when navigating to it. Failures are ignored, since the
+   * navigation runs everything again.
+   *
+   * @param href The URL to prefetch, relative to the current one.
+   */
+  async prefetch(href: string) {
+    const path = toPath(href);
+    const key = withoutHash(path);
+    const last = this.prefetched.get(key) ?? 0;
+
+    if (key === withoutHash(this.context.path)) return;
+    if (Date.now() - last < PREFETCH_INTERVAL) return;
+
+    this.prefetched.set(key, Date.now());
+
+    const matches = Array.from(this.renderer.routeTypes).flatMap(
+      ([pattern, types]) => {
+        const params = matchRoute(pattern, path);
+        return params ? Array.from(types, (type) => ({ type, params })) : [];
+      },
+    );
+
+    try {
+      const loaded = await Promise.all(
+        matches.map(async ({ type, params }) => ({
+          Component: isLazyComponent(type) ? await type.load() : type,
+          params,
+        })),
+      );
+
+      // Lazy components are listed along with the component they loaded
+      const prepared = new Set<typeof Newstack>();
+
+      for (const { Component, params } of loaded) {
+        if (prepared.has(Component)) continue;
+        prepared.add(Component);
+
+        const component = new (Component as unknown as new () => Newstack)();
+        const context = this.prefetchContext(path, params);
+
+        await prefetchServerFunctions(() => component.prepare?.(context));
+      }
+    } catch {
+      // Prefetching is only an optimization
+    }
+  }
+
+  /**
+   * @description
+   * Navigates to a path, adding it to the browser history unless `replace` is set.
+   * The `beforeNavigate` guards of the visible components run first and can cancel
+   * the navigation or redirect it.
+   * When called while a route is being rendered, such as a redirect from `prepare`,
+   * the path replaces the current history entry and is rendered right after.
+   * Navigating to a hash of the current page only scrolls to its anchor.
+   *
+   * @param href The URL to navigate to, relative to the current one.
+   * @param options Whether the current history entry is replaced.
+   * @returns Whether the navigation happened.
+   */
+  async navigate(
+    href: string,
+    options: { replace?: boolean } = {},
+  ): Promise<boolean> {
+    if (this.rendering) {
+      const path = toPath(href);
+
+      history.replaceState(this.historyState(), "", path);
+      this.redirectTo = path;
+      return true;
+    }
+
+    // Components starting outside of a route render, such as once a lazy route is loaded, redirect too
+    const replace = options.replace || this.renderer.starting;
+
+    const path = await this.beforeNavigate(toPath(href));
+    if (!path) return false;
+
+    if (replace) {
+      history.replaceState(this.historyState(), "", path);
+    } else {
+      this.saveScroll();
+      this.historyKey = createHistoryKey();
+      this.historyIndex += 1;
+      history.pushState(this.historyState(), "", path);
+    }
+
+    this.changeRoute(path, replace ? "replace" : "push");
+    return true;
   }
 
   /**
    * @description
    * Renders a specific route in the Newstack application.
    * This function prepares the application context, renders the HTML for the current route,
-   * and hydrates the components. It also patches links to handle client-side navigation.
+   * and hydrates the components.
    *
    * @param href The URL path to render.
    */
   renderRoute(href: string) {
-    this.context.path = href;
-    this.destroyComponents();
+    this.rendering = true;
 
-    const html = this.app.render?.(this.context) || {};
-    if (!html) {
-      console.error("No HTML returned from the application render method.");
-      return;
+    try {
+      this.context.path = href;
+      this.renderer.resetParams();
+
+      const previous = this.routeComponents();
+      this.renderer.visibleIds.clear();
+
+      const html = this.app.render?.(this.context) || {};
+      if (!html) {
+        console.error("No HTML returned from the application render method.");
+        return;
+      }
+
+      this.renderer.patchRoute(html, this.root);
+
+      // Components still rendered, such as layouts outside of the routes, keep their state
+      const current = this.routeComponents();
+      this.renderer.destroyComponents(
+        previous.filter((id) => !current.includes(id)),
+      );
+      this.renderer.startComponents(
+        current.filter((id) => !previous.includes(id)),
+      );
+    } finally {
+      this.rendering = false;
     }
 
-    this.renderer.patchRoute(html, this.root);
+    const redirect = this.redirectTo;
+    this.redirectTo = null;
+
+    if (redirect) this.renderRoute(redirect);
+  }
+
+  /**
+   * @description
+   * Updates the router for a path already in the browser history and renders it.
+   * When only the hash changed, the route is not rendered again.
+   *
+   * @param path The path, with its query string and hash.
+   * @param event How the path was navigated to.
+   * @param scroll The scroll position to restore, for back and forward navigation.
+   */
+  private changeRoute(path: string, event: string, scroll?: [number, number]) {
+    const previous = this.context.path;
+
+    this.context.router.previous = previous;
+    this.context.router.event = event;
 
-    this.assignElements();
+    if (withoutHash(previous) === withoutHash(path)) {
+      this.context.path = path;
+    } else {
+      this.renderRoute(path);
+    }
 
-    this.patchLinks();
+    if (scroll) {
+      window.scrollTo(scroll[0], scroll[1]);
+    } else {
+      this.restoreScroll(new URL(path, location.href).hash);
+    }
 
-    this.startComponents();
+    this.finishNavigation();
+    this.afterNavigate();
   }
 
   /**
    * @description
-   * Patches links in the application to handle client-side navigation.
-   * This function adds click event listeners to all anchor tags (`<a>`) in the document
-   * to prevent the default browser behavior and instead use the Newstack application's routing.
-   * It also listens for the `popstate` event to handle back/forward navigation.
+   * Runs the `beforeNavigate` guards of the application and the visible components,
+   * in order, while `router.navigating` is set. A guard returning `false` cancels the
+   * navigation and one returning a path redirects it, running the guards again for
+   * the new path. A guard that throws cancels the navigation too.
+   *
+   * @param href The path being navigated to.
+   * @returns The path to render, `false` when cancelled, or `null` when another
+   * navigation started in the meantime.
    */
-  private patchLinks() {
-    document.querySelectorAll("a").forEach((link) => {
-      link.onclick = (e) => {
-        e.preventDefault();
-        const href = link.getAttribute("href");
-        if (!href) return;
+  private async beforeNavigate(href: string): Promise<string | false | null> {
+    const navigation = ++this.navigationId;
+    const { router } = this.context;
+    let path = href;
+
+    router.navigating = true;
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      router.next = path;
+      let result: boolean | string | undefined;
+
+      try {
+        result = await this.runGuards();
+      } catch (error) {
+        console.error(error);
+        result = false;
+      }
 
-        history.pushState({}, "", href);
-        this.renderRoute(href);
-      };
-    });
+      if (navigation !== this.navigationId) return null;
+
+      if (typeof result === "string" && toPath(result) !== path) {
+        path = toPath(result);
+        continue;
+      }
+
+      if (result === false) {
+        this.finishNavigation();
+        return false;
+      }
+
+      return path;
+    }
+
+    this.finishNavigation();
+    console.error(`Too many redirects navigating to ${path}.`);
 
-    window.addEventListener(
-      "popstate",
-      () => {
-        this.renderRoute(location.pathname);
+    return false;
+  }
+
+  /**
+   * @description
+   * Clears the navigation in progress from the router.
+   */
+  private finishNavigation() {
+    this.context.router.navigating = false;
+    this.context.router.next = "";
+  }
+
+  /**
+   * @description
+   * Runs the `beforeNavigate` guards until one of them cancels or redirects.
+   */
+  private async runGuards(): Promise<boolean | string | undefined> {
+    const ids = [this.renderer.entrypoint, ...this.routeComponents()];
+
+    for (const id of ids) {
+      const entry = this.renderer.components.get(id);
+      const result = await entry?.component.beforeNavigate?.(
+        this.renderer.contextFor(id),
+      );
+
+      if (result === false || typeof result === "string") return result;
+    }
+  }
+
+  /**
+   * @description
+   * Runs the `afterNavigate` hooks of the application and the visible components.
+   */
+  private afterNavigate() {
+    const ids = [this.renderer.entrypoint, ...this.routeComponents()];
+
+    for (const id of ids) {
+      const entry = this.renderer.components.get(id);
+      entry?.component.afterNavigate?.(this.renderer.contextFor(id));
+    }
+  }
+
+  /**
+   * @description
+   * Builds a detached context for the `prepare` of a prefetched route, so setting the
+   * page or the router does not change the current page.
+   */
+  private prefetchContext(
+    path: string,
+    params: Record<string, string>,
+  ): NewstackClientContext {
+    return {
+      ...this.context,
+      path,
+      params: { ...queryParams(path), ...params },
+      page: { ...this.context.page },
+      router: {
+        ...this.context.router,
+        path,
+        url: new URL(path, location.href).href,
+        event: "push",
+        previous: this.context.path,
       },
-      { once: true },
-    );
+    } as NewstackClientContext;
   }
 
   /**
    * @description
-   * Assigns HTML elements to their corresponding Newstack components.
-   * This function finds all components in the renderer, queries the DOM for their associated elements,
-   * and updates the component's element reference. It also calls the component's update method.
-   *
+   * Prefetches a link when the pointer moves over it, it is focused or touched.
+   */
+  private handleIntent(event: Event) {
+    const link = (event.target as Element | null)?.closest?.("a");
+    if (!link || !this.prefetchModeOf(link) || !isAppLink(link)) return;
+
+    this.prefetch(link.href);
+  }
+
+  /**
+   * @description
+   * Observes the links prefetched when they become visible.
    */
-  private assignElements() {
-    const components = this.routeComponents();
-    for (const component of components) {
-      const { hash } = component.constructor as unknown as { hash: string };
-      const element = this.root.querySelector(`[data-newstack="${hash}"]`);
-      if (!element) continue;
+  private observeLinks() {
+    if (!this.linkObserver) return;
 
-      element.removeAttribute("data-newstack");
-      this.renderer.componentElements.set(hash, element);
-      this.renderer.updateComponent(component);
+    for (const link of Array.from(this.root.querySelectorAll("a"))) {
+      if (this.observedLinks.has(link)) continue;
+      if (this.prefetchModeOf(link) !== "viewport" || !isAppLink(link))
+        continue;
+
+      this.observedLinks.add(link);
+      this.linkObserver.observe(link);
     }
   }
 
   /**
    * @description
-   * Destroys all visible components in the renderer and set them as invisible.
-   * This function iterates through the components map and calls the destroy method
-   * on each component that is currently visible. It then marks the component as not visible.
-   * This is used when changing routes.
+   * How a link is prefetched: `<a prefetch>` on hover, `<a prefetch="viewport">` when
+   * visible, `<a prefetch="none">` never, and other links as set in the `start` options.
+   */
+  private prefetchModeOf(link: HTMLAnchorElement): PrefetchMode | false {
+    const attribute = link.getAttribute("prefetch");
+    if (attribute === null) return this.prefetchMode;
+
+    if (attribute === "viewport") return "viewport";
+    if (attribute === "none" || attribute === "false") return false;
+
+    return "hover";
+  }
+
+  /**
+   * @description
+   * Intercepts clicks on same-origin links to navigate without a full page reload.
+   * Links opened in another tab or window, downloads, external links and clicks
+   * with a modifier key are left to the browser.
    */
-  private destroyComponents() {
-    const components = this.routeComponents();
+  private handleClick(event: MouseEvent) {
+    const link = (event.target as Element | null)?.closest?.("a");
+    if (!link || !isRoutable(event, link)) return;
+
+    event.preventDefault();
+    this.navigate(link.href);
+  }
 
-    for (const component of components) {
-      component.destroy?.(this.context);
+  /**
+   * @description
+   * Renders the path of the history entry navigated back or forward to,
+   * saving the scroll position of the entry that is left.
+   * The browser already moved in the history when the guards run, so a cancelled
+   * navigation moves it back to the entry that was left.
+   */
+  private async handlePopState(event: PopStateEvent) {
+    if (this.restoring) {
+      this.restoring = false;
+      return;
     }
 
-    this.renderer.visibleHashes.clear();
+    const popped = currentPath();
+    const index = event.state?.index ?? 0;
+    const path = await this.beforeNavigate(popped);
+    if (path === null) return;
+
+    if (path === false) {
+      const delta = this.historyIndex - index;
+
+      this.restoring = delta !== 0;
+      history.go(delta);
+      return;
+    }
+
+    this.saveScroll();
+    this.historyKey = event.state?.key ?? createHistoryKey();
+    this.historyIndex = index;
+
+    if (path !== popped) {
+      history.replaceState(this.historyState(), "", path);
+    }
+
+    this.changeRoute(
+      path,
+      "pop",
+      path === popped ? this.scrollPositions.get(this.historyKey) : undefined,
+    );
+  }
+
+  /**
+   * @description
+   * The state of the current history entry.
+   */
+  private historyState() {
+    return { key: this.historyKey, index: this.historyIndex };
   }
 
   /**
    * @description
-   * Starts all visible components in the renderer that are visible.
-   * This function prepares and hydrates all components that are currently visible in the route.
-   * It is called after rendering a new route to ensure that all components are ready for interaction.
+   * Saves the scroll position of the current history entry.
    */
-  private startComponents() {
-    const components = this.routeComponents();
+  private saveScroll() {
+    this.scrollPositions.set(this.historyKey, [window.scrollX, window.scrollY]);
+  }
 
-    for (const component of components) {
-      component.prepare?.(this.context);
-      component.hydrate?.(this.context);
+  /**
+   * @description
+   * Scrolls to the anchor of a hash, or to the top of the page when there is none.
+   */
+  private restoreScroll(hash: string) {
+    const id = hash ? decodeURIComponent(hash.slice(1)) : "";
+    const anchor =
+      id && (document.getElementById(id) ?? document.getElementsByName(id)[0]);
+
+    if (anchor) {
+      anchor.scrollIntoView();
+    } else {
+      window.scrollTo(0, 0);
     }
   }
 
   /**
    * @description
-   * Returns an array of all components that are currently visible in the route.
-   * This function iterates through the renderer's allComponents map and collects
+   * Returns the instance ids of all components that are currently visible in the route.
+   * This function iterates through the renderer's components map and collects
    * components that are marked as visible. It is used to manage the lifecycle of components
    * when rendering a new route.
    *
-   * @returns {Newstack[]} An array of visible Newstack components.
+   * @returns {string[]} An array of visible Newstack component instance ids.
    */
-  private routeComponents() {
-    const components: Newstack[] = [];
+  private routeComponents(): string[] {
+    const ids: string[] = [];
 
-    this.renderer.components.forEach(({ component }, hash) => {
-      if (hash === (this.app.constructor as typeof Newstack).hash) {
+    this.renderer.components.forEach((_, id) => {
+      if (id === this.renderer.entrypoint) {
         // Skip the entrypoint component
         return;
       }
 
-      if (!this.renderer.visibleHashes.has(hash)) return;
+      if (!this.renderer.visibleIds.has(id)) return;
 
-      components.push(component);
+      ids.push(id);
     });
 
-    return components;
+    return ids;
+  }
+}
+
+/**
+ * @description
+ * Whether a clicked link is handled by the client router.
+ */
+function isRoutable(event: MouseEvent, link: HTMLAnchorElement): boolean {
+  if (event.defaultPrevented || event.button !== 0) return false;
+  if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+    return false;
   }
+
+  return isAppLink(link);
 }
+
+/**
+ * @description
+ * Whether a link points to a path of the application, in the same tab.
+ * Paths containing a `.` are files served by the server, as in its routes.
+ */
+function isAppLink(link: HTMLAnchorElement): boolean {
+  const target = link.getAttribute("target");
+  if (target && target !== "_self") return false;
+
+  if (link.hasAttribute("download") || !link.hasAttribute("href")) return false;
+  if (link.getAttribute("rel")?.split(/\s+/).includes("external")) return false;
+
+  // Other origins and protocols, such as `mailto:`, are not routes of the application
+  const url = new URL(link.href, location.href);
+  return url.origin === location.origin && !url.pathname.includes(".");
+}
+
+function toPath(href: string): string {
+  const url = new URL(href, location.href);
+  return url.pathname + url.search + url.hash;
+}
+
+function currentPath(): string {
+  return location.pathname + location.search + location.hash;
+}
+
+function withoutHash(path: string): string {
+  return path.split("#")[0];
+}
+
+function createHistoryKey(): string {
+  return Math.random().toString(36).slice(2);
+}
+
+/* ---------- Types ---------- */
+/**
+ * @description
+ * When links are prefetched: when the pointer moves over them (or they are focused
+ * or touched), or as soon as they are visible.
+ */
+export type PrefetchMode = "hover" | "viewport";
+
+export type NewstackClientOptions = {
+  /**
+   * @description
+   * How links without a `prefetch` attribute are prefetched. They are not by default.
+   */
+  prefetch?: PrefetchMode | false;
+};
@@ -0,0 +1,181 @@
+/* ---------- Internal ---------- */
+import { promisify } from "util";
+import {
+  type BrotliCompress,
+  type Gzip,
+  brotliCompress,
+  constants,
+  createBrotliCompress,
+  createGzip,
+  gzip,
+} from "zlib";
+
+/* ---------- External ---------- */
+import type { Context } from "hono";
+
+/**
+ * @description
+ * Content encodings the server can respond with, by order of preference.
+ */
+export type Encoding = "br" | "gzip";
+
+const ENCODINGS: Encoding[] = ["br", "gzip"];
+
+/**
+ * @description
+ * Extensions of the precompressed siblings written by the builder.
+ */
+export const ENCODING_EXTENSIONS: Record<Encoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+};
+
+/**
+ * @description
+ * Responses smaller than this are sent as they are, since compression would not pay off.
+ */
+export const MIN_COMPRESS_SIZE = 1024;
+
+const COMPRESSIBLE =
+  /^(text\/|application\/(javascript|json|xml|manifest\+json|wasm)|image\/svg\+xml)/;
+
+const brotli = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+
+/**
+ * @description
+ * Picks the encoding to respond with from an `Accept-Encoding` header.
+ * Quality values are respected and brotli is preferred on ties.
+ *
+ * @param header The `Accept-Encoding` header of the request.
+ * @returns The encoding, or null when the response must not be compressed.
+ */
+export function negotiateEncoding(header?: string): Encoding | null {
+  if (!header) return null;
+
+  const qualities = new Map<string, number>();
+
+  for (const part of header.split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    const q = params.find((param) => param.trim().startsWith("q="));
+
+    qualities.set(name.trim(), q ? Number(q.trim().slice(2)) : 1);
+  }
+
+  let best: Encoding | null = null;
+  let bestQuality = 0;
+
+  for (const encoding of ENCODINGS) {
+    const quality = qualities.get(encoding) ?? qualities.get("*") ?? 0;
+
+    if (quality > bestQuality) {
+      best = encoding;
+      bestQuality = quality;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * @description
+ * Whether a content type is text-like and benefits from compression.
+ *
+ * @param contentType The `Content-Type` of the response.
+ */
+export function isCompressible(contentType: string): boolean {
+  return COMPRESSIBLE.test(contentType);
+}
+
+/**
+ * @description
+ * Compresses a body on the fly. Brotli uses a lower quality than the builder,
+ * which precompresses with the highest one, to keep requests fast.
+ *
+ * @param body The body to compress.
+ * @param encoding The encoding to use.
+ * @returns The compressed body.
+ */
+export function compress(
+  body: string | Uint8Array,
+  encoding: Encoding,
+): Promise<Buffer> {
+  if (encoding === "br") {
+    return brotli(body, { params: { [constants.BROTLI_PARAM_QUALITY]: 5 } });
+  }
+
+  return gzipAsync(body);
+}
+
+/**
+ * @description
+ * Streams text chunks, compressed with the encoding negotiated with the client.
+ * The compressor is flushed after every chunk, so each one reaches the client
+ * as soon as it is produced instead of when the compressor buffer fills up.
+ *
+ * @param c The Hono context of the request.
+ * @param chunks The text chunks to send.
+ * @param contentType The `Content-Type` of the body.
+ * @returns The response.
+ */
+export function sendCompressedStream(
+  c: Context,
+  chunks: AsyncIterable<string>,
+  contentType: string,
+): Response {
+  c.header("Content-Type", contentType);
+  c.header("Vary", "Accept-Encoding");
+
+  const encoding = negotiateEncoding(c.req.header("Accept-Encoding"));
+  if (encoding) c.header("Content-Encoding", encoding);
+
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const compressor = encoding ? createCompressor(encoding) : null;
+
+      compressor?.on("data", (data: Buffer) =>
+        controller.enqueue(new Uint8Array(data)),
+      );
+
+      try {
+        for await (const chunk of chunks) {
+          if (!compressor) {
+            controller.enqueue(encoder.encode(chunk));
+            continue;
+          }
+
+          compressor.write(chunk);
+          await new Promise<void>((resolve) =>
+            compressor.flush(() => resolve()),
+          );
+        }
+
+        if (compressor) {
+          await new Promise((resolve) => {
+            compressor.on("end", resolve);
+            compressor.end();
+          });
+        }
+
+        controller.close();
+      } catch (error) {
+        compressor?.destroy();
+        controller.error(error);
+      }
+    },
+  });
+
+  return c.body(body);
+}
+
+function createCompressor(encoding: Encoding): Gzip | BrotliCompress {
+  if (encoding === "br") {
+    return createBrotliCompress({
+      params: { [constants.BROTLI_PARAM_QUALITY]: 5 },
+    });
+  }
+
+  return createGzip();
+}
@@ -51,13 +51,17 @@ export function proxifyContext(
     },
     set(obj, key, val) {
       if (ctx.environment === "server") {
+        // The path being served does not change, the response redirects instead
+        if (key === "path" && typeof val === "string") {
+          ctx.response?.redirect(val);
+        }
+
         obj[key] = val;
         return true;
       }
 
       if (key === "path" && typeof val === "string") {
-        history.pushState({}, "", val);
-        client.renderRoute(val);
+        client.navigate(val);
       }
 
       obj[key] = val;
@@ -3,8 +3,10 @@ import {
   type NewstackServerContext,
   NewstackComponent,
 } from "./types/context";
+import type { NewstackSchema } from "./validation";
 
 type VoidOrPromise = void | Promise<void>;
+type NavigationGuard = boolean | string | undefined;
 
 export { NewstackClientContext, NewstackServerContext } from "./types/context";
 
@@ -21,6 +23,27 @@ export abstract class Newstack<T = {}> extends NewstackComponent<T> {
    */
   static hash: string;
 
+  /**
+   * @description
+   * Names of the static async methods (server functions) that can be called from the client.
+   * Automatically set in the build time, the server refuses to execute anything else.
+   */
+  static serverFunctions: string[];
+
+  /**
+   * @description
+   * Optional schemas validating the arguments of each server function, indexed by method name.
+   */
+  static schemas?: Record<string, NewstackSchema>;
+
+  /**
+   * @description
+   * Whether the server waits for the async `prepare` of the component before sending
+   * the page shell, instead of streaming it later. Required to set the response status
+   * or redirect after an `await`.
+   */
+  static blocking?: boolean;
+
   constructor() {
     super();
 
@@ -52,6 +75,12 @@ export abstract class Newstack<T = {}> extends NewstackComponent<T> {
   update?(context?: NewstackClientContext<T>): VoidOrPromise;
   /** Method automatically ran in the client when the component is no longer in the DOM. */
   destroy?(context?: NewstackClientContext<T>): VoidOrPromise;
+  /** Method automatically ran in the client before navigating to `router.next`. Returning `false` cancels the navigation and returning a path redirects it. */
+  beforeNavigate?(
+    context?: NewstackClientContext<T>,
+  ): NavigationGuard | Promise<NavigationGuard>;
+  /** Method automatically ran in the client after a navigation is rendered, and after the first page is hydrated. */
+  afterNavigate?(context?: NewstackClientContext<T>): VoidOrPromise;
   /** Method automatically ran in the client for reactivity and ran once in the server for first-page-view SSR. */
   render?(context?: NewstackClientContext<T>): any;
 }
@@ -0,0 +1,347 @@
+import { RAW_HTML, attributeValue } from "./html";
+import type { NewstackRef } from "./ref";
+
+/**
+ * @description
+ * A virtual node after components have been resolved into their render output.
+ * It is the common ground between the server (serialized to HTML) and the client
+ * (created and patched directly in the DOM).
+ */
+export type RenderedNode = {
+  /**
+   * @description
+   * The tag name of the element, `#text` for text nodes or `#comment` for skipped routes.
+   */
+  type: string;
+
+  /**
+   * @description
+   * The element attributes, including event handlers.
+   */
+  props: Record<string, unknown>;
+
+  /**
+   * @description
+   * The rendered children of the element.
+   */
+  children: RenderedNode[];
+
+  /**
+   * @description
+   * The `key` attribute, used to match nodes between renders.
+   */
+  key?: unknown;
+
+  /**
+   * @description
+   * The content of a text node.
+   */
+  text?: string;
+
+  /**
+   * @description
+   * The instance id of the component whose render output contains this node.
+   */
+  scope?: string;
+
+  /**
+   * @description
+   * The ref receiving the DOM element of this node in the client.
+   */
+  ref?: NewstackRef;
+
+  /**
+   * @description
+   * The DOM node created for this node in the client.
+   */
+  dom?: Node;
+};
+
+/**
+ * @description
+ * Callback used to wrap event handlers, so the component owning the element
+ * can be updated after the handler runs.
+ */
+export type EventWrapper = (
+  handler: (e: Event) => unknown,
+  scope: string,
+) => (e: Event) => unknown;
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+const PROPERTIES = ["value", "checked", "selected"];
+
+/**
+ * @description
+ * Creates the DOM node of a rendered node and all its children.
+ *
+ * @param node The rendered node.
+ * @param wrap The event handler wrapper.
+ * @param svg Whether the node is inside an SVG element.
+ * @returns The created DOM node.
+ */
+export function createNode(
+  node: RenderedNode,
+  wrap: EventWrapper,
+  svg = false,
+): Node {
+  if (node.type === "#text") {
+    node.dom = document.createTextNode(node.text);
+    return node.dom;
+  }
+
+  if (node.type === "#comment") {
+    node.dom = document.createComment("");
+    return node.dom;
+  }
+
+  const isSvg = svg || node.type === "svg";
+  const element = isSvg
+    ? document.createElementNS(SVG_NAMESPACE, node.type)
+    : document.createElement(node.type);
+
+  node.dom = element;
+  patchProps(element, {}, node.props, node.scope, wrap);
+
+  for (const child of node.children) {
+    element.appendChild(createNode(child, wrap, isSvg));
+  }
+
+  return element;
+}
+
+/**
+ * @description
+ * Patches the DOM node of an old rendered node to match a new one.
+ * The DOM node is kept when both nodes have the same type, which preserves
+ * focus, selection and input values. Otherwise it is replaced.
+ *
+ * @param oldNode The rendered node currently in the DOM.
+ * @param newNode The new rendered node.
+ * @param wrap The event handler wrapper.
+ * @returns The DOM node of the new rendered node.
+ */
+export function patchNode(
+  oldNode: RenderedNode,
+  newNode: RenderedNode,
+  wrap: EventWrapper,
+): Node {
+  const dom = oldNode.dom;
+
+  if (!isSameNode(oldNode, newNode)) {
+    const created = createNode(newNode, wrap, isSvgNode(dom));
+    dom.parentNode?.replaceChild(created, dom);
+    return created;
+  }
+
+  newNode.dom = dom;
+
+  if (newNode.type === "#text") {
+    if (oldNode.text !== newNode.text) dom.nodeValue = newNode.text;
+    return dom;
+  }
+
+  if (newNode.type === "#comment") return dom;
+
+  patchProps(dom as Element, oldNode.props, newNode.props, newNode.scope, wrap);
+  patchChildren(dom as Element, oldNode.children, newNode.children, wrap);
+
+  return dom;
+}
+
+/**
+ * @description
+ * Reconciles the children of a DOM element.
+ * Children are matched by `key` first and then by position among the unkeyed ones.
+ * Matched children are patched in place, unmatched old children are removed and new
+ * ones are created. Only the children out of the longest stable sequence are moved,
+ * and the focused element gets the focus back when it was moved.
+ *
+ * @param parent The DOM element containing the children.
+ * @param oldChildren The rendered children currently in the DOM.
+ * @param newChildren The new rendered children.
+ * @param wrap The event handler wrapper.
+ */
+export function patchChildren(
+  parent: Element,
+  oldChildren: RenderedNode[],
+  newChildren: RenderedNode[],
+  wrap: EventWrapper,
+) {
+  const keyed = new Map<unknown, number>();
+  const unkeyed: number[] = [];
+
+  oldChildren.forEach((child, i) => {
+    if (child.key === undefined || child.key === null) unkeyed.push(i);
+    else keyed.set(child.key, i);
+  });
+
+  const used = new Set<number>();
+  let next = 0;
+
+  // Index of the matched old child for each new child, -1 when created
+  const sources = newChildren.map((child) => {
+    let index: number;
+
+    if (child.key === undefined || child.key === null) {
+      index = unkeyed[next++];
+    } else {
+      index = keyed.get(child.key);
+    }
+
+    const match = oldChildren[index];
+    if (index === undefined || used.has(index) || !isSameNode(match, child)) {
+      return -1;
+    }
+
+    used.add(index);
+    return index;
+  });
+
+  oldChildren.forEach((child, i) => {
+    if (!used.has(i)) child.dom?.parentNode?.removeChild(child.dom);
+  });
+
+  const svg = isSvgNode(parent);
+  newChildren.forEach((child, i) => {
+    const source = sources[i];
+    if (source === -1) createNode(child, wrap, svg);
+    else patchNode(oldChildren[source], child, wrap);
+  });
+
+  const stable = longestIncreasingSubsequence(sources);
+  const focused = document.activeElement;
+  let anchor: Node = null;
+
+  for (let i = newChildren.length - 1; i >= 0; i--) {
+    const { dom } = newChildren[i];
+
+    if (sources[i] === -1 || !stable.has(i)) {
+      parent.insertBefore(dom, anchor);
+    }
+
+    anchor = dom;
+  }
+
+  // Moving an element blurs it, or the input it contains
+  if (
+    focused instanceof HTMLElement &&
+    focused !== document.activeElement &&
+    parent.contains(focused)
+  ) {
+    focused.focus();
+  }
+}
+
+/**
+ * @description
+ * Updates the attributes, properties and event handlers of an element.
+ *
+ * @param element The DOM element.
+ * @param oldProps The props currently applied to the element.
+ * @param newProps The new props.
+ * @param scope The instance id of the component owning the element.
+ * @param wrap The event handler wrapper.
+ */
+function patchProps(
+  element: Element,
+  oldProps: Record<string, unknown>,
+  newProps: Record<string, unknown>,
+  scope: string,
+  wrap: EventWrapper,
+) {
+  for (const key of Object.keys(oldProps)) {
+    if (key in newProps) continue;
+
+    if (isEvent(key, oldProps[key])) {
+      element[key] = null;
+    } else if (key === RAW_HTML) {
+      element.innerHTML = "";
+    } else if (PROPERTIES.includes(key)) {
+      element[key] = key === "value" ? "" : false;
+    } else {
+      element.removeAttribute(key === "className" ? "class" : key);
+    }
+  }
+
+  for (const [key, value] of Object.entries(newProps)) {
+    if (isEvent(key, value)) {
+      element[key] = wrap(value as (e: Event) => unknown, scope);
+      continue;
+    }
+
+    if (key === RAW_HTML) {
+      const html = String((value as { __html?: string })?.__html ?? "");
+      if (element.innerHTML !== html) element.innerHTML = html;
+      continue;
+    }
+
+    if (PROPERTIES.includes(key) && key in element) {
+      const property = key === "value" ? String(value ?? "") : Boolean(value);
+      if (element[key] !== property) element[key] = property;
+      continue;
+    }
+
+    const name = key === "className" ? "class" : key;
+    const attribute = attributeValue(name, value);
+
+    if (attribute === null) {
+      element.removeAttribute(name);
+      continue;
+    }
+
+    if (element.getAttribute(name) !== attribute) {
+      element.setAttribute(name, attribute);
+    }
+  }
+}
+
+/**
+ * @description
+ * Returns the positions of the values that form the longest increasing subsequence,
+ * ignoring `-1` values. Those are the children that do not need to move.
+ *
+ * @param values The old child index of each new child.
+ * @returns The positions in the stable sequence.
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const predecessors = new Array<number>(values.length);
+  const tails: number[] = [];
+
+  values.forEach((value, i) => {
+    if (value === -1) return;
+
+    let low = 0;
+    let high = tails.length;
+
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) low = middle + 1;
+      else high = middle;
+    }
+
+    predecessors[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+
+  const result = new Set<number>();
+  let current = tails[tails.length - 1];
+
+  while (current !== undefined && current !== -1) {
+    result.add(current);
+    current = predecessors[current];
+  }
+
+  return result;
+}
+
+function isSameNode(a: RenderedNode, b: RenderedNode): boolean {
+  return a.type === b.type && a.key === b.key;
+}
+
+function isSvgNode(node: Node): boolean {
+  return (node as Element)?.namespaceURI === SVG_NAMESPACE;
+}
+
+function isEvent(key: string, value: unknown): boolean {
+  return key.startsWith("on") && typeof value === "function";
+}
@@ -0,0 +1,199 @@
+/**
+ * @description
+ * Options of a `NewstackError`.
+ */
+export type NewstackErrorOptions = {
+  /**
+   * @description
+   * HTTP status code of the response. Defaults to 500.
+   */
+  status?: number;
+
+  /**
+   * @description
+   * Machine readable code of the error, such as `NOT_FOUND`.
+   */
+  code?: string;
+
+  /**
+   * @description
+   * Public payload sent to the client along with the error.
+   */
+  data?: unknown;
+
+  /**
+   * @description
+   * Whether the message can be sent to the client in production.
+   * Defaults to `true` for statuses below 500.
+   */
+  expose?: boolean;
+};
+
+/**
+ * @description
+ * Error sent to the client when a server function fails, without its internals.
+ * The stack is only present in development.
+ */
+export type NewstackErrorPayload = {
+  name: string;
+  message: string;
+  status: number;
+  code: string;
+  data?: unknown;
+  issues?: unknown[];
+  stack?: string;
+};
+
+/**
+ * @description
+ * Error that server functions can throw to respond with a status code,
+ * an error code and a public payload.
+ * The client rethrows it with the same class, so it can be caught with `instanceof`.
+ *
+ * @example
+ * ```ts
+ * throw new NewstackError("Post not found", { status: 404, code: "NOT_FOUND" });
+ * ```
+ */
+export class NewstackError extends Error {
+  /**
+   * @description
+   * HTTP status code of the response.
+   */
+  status: number;
+
+  /**
+   * @description
+   * Machine readable code of the error.
+   */
+  code: string;
+
+  /**
+   * @description
+   * Public payload sent to the client along with the error.
+   */
+  data?: unknown;
+
+  /**
+   * @description
+   * Whether the message can be sent to the client in production.
+   */
+  expose: boolean;
+
+  constructor(message: string, options: NewstackErrorOptions = {}) {
+    super(message);
+    this.name = "NewstackError";
+    this.status = options.status ?? 500;
+    this.code = options.code ?? "INTERNAL_ERROR";
+    this.data = options.data;
+    this.expose = options.expose ?? this.status < 500;
+  }
+}
+
+/**
+ * @description
+ * Error thrown when the arguments of a server function do not match its schema.
+ * The server responds with a 400 status and the validation issues.
+ */
+export class NewstackValidationError extends NewstackError {
+  /**
+   * @description
+   * The validation issues reported by the schema.
+   */
+  issues: unknown[];
+
+  constructor(message: string, issues: unknown[] = []) {
+    super(message, { status: 400, code: "VALIDATION_ERROR" });
+    this.name = "NewstackValidationError";
+    this.issues = issues;
+  }
+}
+
+const errorClasses = new Map<string, new (...args: any[]) => NewstackError>([
+  ["NewstackError", NewstackError],
+  ["NewstackValidationError", NewstackValidationError],
+]);
+
+/**
+ * @description
+ * Registers a custom error class so the client rethrows it with the same class.
+ * It must be registered in code shared by the server and the client, and the
+ * error `name` must be set to the given name.
+ *
+ * @param name The name of the error class.
+ * @param ErrorClass The error class, extending `NewstackError`.
+ */
+export function registerError(
+  name: string,
+  ErrorClass: new (...args: any[]) => NewstackError,
+) {
+  errorClasses.set(name, ErrorClass);
+}
+
+/**
+ * @description
+ * Converts an error thrown by a server function into the payload sent to the client.
+ * Messages of unexpected errors are hidden in production, and stacks are only sent in development.
+ *
+ * @param error The thrown error.
+ * @param development Whether the server runs in development.
+ * @returns The error payload.
+ */
+export function toErrorPayload(
+  error: unknown,
+  development: boolean,
+): NewstackErrorPayload {
+  const known = error instanceof NewstackError;
+  const exposed = development || (known && error.expose);
+
+  const payload: NewstackErrorPayload = {
+    name: known ? error.name : "NewstackError",
+    message: exposed ? messageOf(error) : "Internal server error",
+    status: known ? error.status : 500,
+    code: known ? error.code : "INTERNAL_ERROR",
+  };
+
+  if (known && error.data !== undefined) payload.data = error.data;
+  if (error instanceof NewstackValidationError) payload.issues = error.issues;
+  if (development && error instanceof Error) payload.stack = error.stack;
+
+  return payload;
+}
+
+/**
+ * @description
+ * Creates the error rethrown by the client from the payload sent by the server,
+ * using the registered class of the same name or `NewstackError`.
+ * The constructor of the class is not called, so any signature is supported.
+ *
+ * @param payload The error payload.
+ * @returns The error instance.
+ */
+export function reviveError(payload: NewstackErrorPayload): NewstackError {
+  const ErrorClass = errorClasses.get(payload.name) ?? NewstackError;
+  const error = Reflect.construct(
+    Error,
+    [payload.message],
+    ErrorClass,
+  ) as NewstackError;
+
+  error.name = payload.name;
+  error.status = payload.status;
+  error.code = payload.code;
+  error.data = payload.data;
+  error.expose = true;
+
+  if (payload.issues) {
+    (error as NewstackValidationError).issues = payload.issues;
+  }
+
+  if (payload.stack) error.stack = payload.stack;
+
+  return error;
+}
+
+function messageOf(error: unknown): string {
+  if (error instanceof Error) return error.message;
+
+  return typeof error === "string" ? error : "Unknown server error";
+}
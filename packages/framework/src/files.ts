@@ -0,0 +1,262 @@
+/* ---------- Internal ---------- */
+import { type Stats, createReadStream } from "fs";
+import { readFile, stat } from "fs/promises";
+import { resolve, sep } from "path";
+import { Readable } from "stream";
+
+/* ---------- External ---------- */
+import type { Context } from "hono";
+
+/* ---------- Framework ---------- */
+import {
+  ENCODING_EXTENSIONS,
+  type Encoding,
+  MIN_COMPRESS_SIZE,
+  compress,
+  isCompressible,
+  negotiateEncoding,
+} from "./compression";
+
+/**
+ * @description
+ * Files bigger than this are never compressed on the fly, only through precompressed siblings.
+ */
+const MAX_COMPRESS_SIZE = 10 * 1024 * 1024;
+
+/**
+ * @description
+ * Files compressed on the fly, by encoding and path, along with the ETag they were compressed for.
+ */
+const compressed = new Map<string, { etag: string; body: Buffer }>();
+
+/**
+ * @description
+ * Options of a served file.
+ */
+export type ServeFileOptions = {
+  /**
+   * @description
+   * The `Content-Type` of the file.
+   */
+  contentType: string;
+
+  /**
+   * @description
+   * Whether the file name is content hashed, so it can be cached forever.
+   * Otherwise browsers revalidate it with the ETag on every use.
+   */
+  immutable?: boolean;
+};
+
+/**
+ * @description
+ * Resolves a requested file name inside a root directory.
+ * Returns `null` when the name escapes the root, such as `../server.js`,
+ * including when the traversal is URL encoded.
+ *
+ * @param root The directory the file must be in.
+ * @param name The requested file name.
+ * @returns The absolute file path or null.
+ */
+export function resolveFilePath(root: string, name: string): string | null {
+  let decoded: string;
+
+  try {
+    decoded = decodeURIComponent(name);
+  } catch {
+    return null;
+  }
+
+  if (decoded.includes("\0")) return null;
+
+  const base = resolve(root);
+  const filePath = resolve(base, `.${sep}${decoded}`);
+
+  return filePath.startsWith(base + sep) ? filePath : null;
+}
+
+/**
+ * @description
+ * Streams a file as the binary response body.
+ * It sets the ETag and Last-Modified headers, answers conditional requests with
+ * a 304 status and single byte ranges with a 206 status.
+ * Text files are compressed with the encoding negotiated with the client, using the
+ * `.br` or `.gz` sibling written by the builder when there is an up to date one.
+ * Each encoding gets its own strong ETag, since their bytes differ.
+ * Returns `null` when the file does not exist, so the caller can respond with a 404.
+ *
+ * @param c The Hono context of the request.
+ * @param filePath The absolute path of the file.
+ * @param options The content type and caching of the file.
+ * @returns The response or null.
+ */
+export async function serveFile(
+  c: Context,
+  filePath: string,
+  options: ServeFileOptions,
+): Promise<Response | null> {
+  const stats = await stat(filePath).catch(() => null);
+  if (!stats?.isFile()) return null;
+
+  const lastModified = stats.mtime.toUTCString();
+
+  // Cached responses, including 304 ones, depend on the encoding
+  const compressible = isCompressible(options.contentType);
+  if (compressible) c.header("Vary", "Accept-Encoding");
+
+  // Ranges need a strong validator, which a weak ETag never is
+  const range = c.req.header("Range");
+  const ifRange = c.req.header("If-Range");
+  const useRange =
+    range && (!ifRange || [entityTag(stats), lastModified].includes(ifRange));
+
+  // Ranges are always served from the uncompressed file, so their offsets are the requested ones
+  let encoding =
+    compressible && !useRange && stats.size >= MIN_COMPRESS_SIZE
+      ? negotiateEncoding(c.req.header("Accept-Encoding"))
+      : null;
+
+  const sibling = encoding && `${filePath}${ENCODING_EXTENSIONS[encoding]}`;
+  const siblingStats = sibling && (await stat(sibling).catch(() => null));
+  const useSibling =
+    siblingStats?.isFile() && siblingStats.mtimeMs >= stats.mtimeMs;
+
+  if (!useSibling && stats.size > MAX_COMPRESS_SIZE) encoding = null;
+
+  const etag = entityTag(useSibling ? siblingStats : stats, encoding);
+
+  c.header("ETag", etag);
+  c.header("Last-Modified", lastModified);
+  c.header("Accept-Ranges", "bytes");
+  c.header(
+    "Cache-Control",
+    options.immutable
+      ? "public, max-age=31536000, immutable"
+      : "public, max-age=0, must-revalidate",
+  );
+
+  if (isNotModified(c, etag, stats.mtime)) {
+    return c.body(null, 304);
+  }
+
+  c.header("Content-Type", options.contentType);
+
+  if (useSibling) {
+    c.header("Content-Encoding", encoding);
+    c.header("Content-Length", String(siblingStats.size));
+
+    if (c.req.method === "HEAD") return c.body(null);
+
+    const stream = createReadStream(sibling);
+    return c.body(Readable.toWeb(stream) as ReadableStream);
+  }
+
+  if (encoding) {
+    const body = await compressFile(filePath, etag, encoding);
+
+    c.header("Content-Encoding", encoding);
+    c.header("Content-Length", String(body.length));
+
+    return c.body(c.req.method === "HEAD" ? null : new Uint8Array(body));
+  }
+
+  let start = 0;
+  let end = stats.size - 1;
+
+  if (useRange) {
+    const bytes = parseRange(range, stats.size);
+
+    if (!bytes) {
+      c.header("Content-Range", `bytes */${stats.size}`);
+      return c.body(null, 416);
+    }
+
+    [start, end] = bytes;
+    c.status(206);
+    c.header("Content-Range", `bytes ${start}-${end}/${stats.size}`);
+  }
+
+  c.header("Content-Length", String(end - start + 1));
+
+  // Only the headers are sent, the file is never opened
+  if (c.req.method === "HEAD" || stats.size === 0) return c.body(null);
+
+  const stream = createReadStream(filePath, { start, end });
+  return c.body(Readable.toWeb(stream) as ReadableStream);
+}
+
+/**
+ * @description
+ * Compresses a file on the fly, reusing the result until the file changes.
+ */
+async function compressFile(
+  filePath: string,
+  etag: string,
+  encoding: Encoding,
+): Promise<Buffer> {
+  const key = `${encoding}:${filePath}`;
+  const cached = compressed.get(key);
+  if (cached?.etag === etag) return cached.body;
+
+  const body = await compress(await readFile(filePath), encoding);
+  compressed.set(key, { etag, body });
+
+  return body;
+}
+
+/**
+ * @description
+ * The strong ETag of a file, or of its content in an encoding.
+ */
+function entityTag(stats: Stats, encoding?: Encoding | null): string {
+  const tag = `${stats.size.toString(16)}-${stats.mtimeMs.toString(16)}`;
+
+  return encoding ? `"${tag}-${encoding}"` : `"${tag}"`;
+}
+
+/**
+ * @description
+ * Checks the conditional headers of the request against the file.
+ * `If-None-Match` takes precedence over `If-Modified-Since`, and uses the
+ * weak comparison, ignoring the `W/` prefix of the tags.
+ */
+function isNotModified(c: Context, etag: string, mtime: Date): boolean {
+  const ifNoneMatch = c.req.header("If-None-Match");
+
+  if (ifNoneMatch) {
+    const tags = ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""));
+    return tags.includes("*") || tags.includes(etag);
+  }
+
+  const ifModifiedSince = Date.parse(c.req.header("If-Modified-Since") ?? "");
+  if (Number.isNaN(ifModifiedSince)) return false;
+
+  // HTTP dates have a precision of seconds
+  return Math.floor(mtime.getTime() / 1000) * 1000 <= ifModifiedSince;
+}
+
+/**
+ * @description
+ * Parses a single `bytes=` range, including suffix (`bytes=-500`) and open (`bytes=500-`) ranges.
+ * Returns `null` when the range cannot be satisfied. Multiple ranges are not supported.
+ */
+function parseRange(header: string, size: number): [number, number] | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0) return null;
+
+    return [Math.max(size - suffix, 0), size - 1];
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+
+  if (start >= size || start > end) return null;
+
+  return [start, end];
+}
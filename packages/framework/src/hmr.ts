@@ -0,0 +1,46 @@
+/* ---------- Framework ---------- */
+import type { NewstackClient } from "./client";
+import { collectReplacedComponents } from "./registry";
+
+/**
+ * @description
+ * Connects the client to the dev server, which sends the chunks to import
+ * again once the client is rebuilt. The component classes of those chunks
+ * replace the previous ones in place, keeping the state of their instances.
+ * Changes that cannot be swapped, such as framework changes, reload the page.
+ *
+ * @param client The running client.
+ * @param url The WebSocket URL of the dev server.
+ */
+export function hotReload(client: NewstackClient, url: string) {
+  const socket = new WebSocket(url);
+
+  socket.addEventListener("message", async (event) => {
+    const update: HotUpdate = JSON.parse(event.data);
+
+    if (update.type === "reload") {
+      location.reload();
+      return;
+    }
+
+    try {
+      const replaced = await collectReplacedComponents(() =>
+        Promise.all(update.chunks.map((chunk) => import(chunk))),
+      );
+
+      client.renderer.replaceComponents(replaced);
+      console.info(`[newstack] Updated ${replaced.size} components`);
+    } catch (error) {
+      console.error(error);
+      location.reload();
+    }
+  });
+}
+
+/* ---------- Types ---------- */
+
+/**
+ * @description
+ * Message sent by the dev server after a client rebuild.
+ */
+type HotUpdate = { type: "update"; chunks: string[] } | { type: "reload" };
@@ -0,0 +1,163 @@
+import type { RenderedNode } from "./dom";
+import { serialize } from "./serializer";
+
+/**
+ * @description
+ * Elements that cannot have children and must not have a closing tag.
+ */
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * @description
+ * Valid attribute names, anything else is dropped instead of breaking the markup.
+ */
+const ATTRIBUTE_NAME = /^[^\s"'<>/=]+$/;
+
+/**
+ * @description
+ * Attribute used to opt in to raw HTML children, as `{ __html: string }`.
+ */
+export const RAW_HTML = "dangerouslySetInnerHTML";
+
+/**
+ * @description
+ * Escapes a string to be safely used as HTML text or as a quoted attribute value.
+ *
+ * @param value The value to escape.
+ * @returns The escaped string.
+ */
+export function escapeHTML(value: unknown): string {
+  return String(value ?? "").replace(/[&<>"']/g, (char) => ESCAPES[char]);
+}
+
+/**
+ * @description
+ * Serializes a value with the framework serializer into JSON that can be safely
+ * inlined in a `<script>` tag, so strings such as `</script>` cannot close the tag.
+ *
+ * @param value The value to serialize.
+ * @returns The JSON string.
+ */
+export function serializeScriptJSON(value: unknown): string {
+  return serialize(value)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
+/**
+ * @description
+ * Converts an attribute value into the string set in the element.
+ * `style` objects become CSS declarations and `class` arrays or objects become class lists.
+ * Returns `null` when the attribute should not be present (`null`, `undefined` and `false`),
+ * and an empty string for boolean `true` attributes.
+ *
+ * @param key The attribute name.
+ * @param value The attribute value.
+ * @returns The attribute string or null.
+ */
+export function attributeValue(key: string, value: unknown): string | null {
+  if (value === null || value === undefined || value === false) return null;
+  if (value === true) return "";
+
+  if (key === "style" && typeof value === "object") {
+    return Object.entries(value)
+      .filter(([, val]) => val !== null && val !== undefined && val !== false)
+      .map(([prop, val]) => `${toKebabCase(prop)}:${val}`)
+      .join(";");
+  }
+
+  if ((key === "class" || key === "className") && typeof value === "object") {
+    return classList(value).join(" ");
+  }
+
+  return String(value);
+}
+
+/**
+ * @description
+ * Serializes rendered nodes into an HTML string.
+ * Text and attribute values are escaped, only `dangerouslySetInnerHTML` outputs raw HTML.
+ *
+ * @param nodes The rendered nodes.
+ * @returns The HTML string.
+ */
+export function stringify(nodes: RenderedNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "#text") return escapeHTML(node.text);
+      if (node.type === "#comment") return "<!---->";
+
+      // Textareas have their value as content instead of an attribute
+      const isTextarea = node.type === "textarea" && "value" in node.props;
+
+      const attrs = Object.entries(node.props)
+        .filter(([key, val]) => key !== RAW_HTML && typeof val !== "function")
+        .filter(([key]) => !isTextarea || key !== "value")
+        .filter(([key]) => ATTRIBUTE_NAME.test(key))
+        .map(([key, val]) => {
+          const name = key === "className" ? "class" : key;
+          const attribute = attributeValue(name, val);
+
+          if (attribute === null) return "";
+          if (val === true) return ` ${name}`;
+
+          return ` ${name}="${escapeHTML(attribute)}"`;
+        })
+        .join("");
+
+      if (VOID_ELEMENTS.has(node.type)) return `<${node.type}${attrs}>`;
+
+      if (isTextarea) {
+        return `<${node.type}${attrs}>${escapeHTML(node.props.value)}</${node.type}>`;
+      }
+
+      const raw = node.props[RAW_HTML] as { __html?: string } | undefined;
+      const children = raw
+        ? String(raw.__html ?? "")
+        : stringify(node.children);
+
+      return `<${node.type}${attrs}>${children}</${node.type}>`;
+    })
+    .join("");
+}
+
+function classList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(classList);
+  if (value && typeof value === "object") {
+    return Object.entries(value)
+      .filter(([, enabled]) => enabled)
+      .map(([name]) => name);
+  }
+
+  return value ? [String(value)] : [];
+}
+
+function toKebabCase(prop: string): string {
+  if (prop.startsWith("--")) return prop;
+
+  return prop.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
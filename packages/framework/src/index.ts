@@ -5,6 +5,18 @@ import {
 } from "./core";
 
 export * from "./client";
+export * from "./errors";
+export { callServerFunction } from "./server-functions";
+export { lazy } from "./lazy";
+export type { LazyComponent, LazyOptions } from "./lazy";
+export { registerComponent } from "./registry";
+export { deserialize, registerClass, serialize } from "./serializer";
+export type { NewstackSerializable } from "./serializer";
+export type { NewstackSchema } from "./validation";
+export type {
+  NewstackCookieOptions,
+  NewstackResponse,
+} from "./types/context";
 
 export default Newstack;
 export type { NewstackClientContext, NewstackServerContext };
@@ -0,0 +1,133 @@
+/* ---------- Framework ---------- */
+import { Newstack } from "./core";
+import { registerLazyModule } from "./registry";
+
+/**
+ * @description
+ * Loader of a lazy component, such as `() => import("./Profile")`.
+ * The builder adds the id of the imported module, used to find its chunks.
+ */
+type LazyLoader = (() => Promise<Record<string, unknown>>) & {
+  module?: string;
+};
+
+/**
+ * @description
+ * Options of a lazy component.
+ */
+export type LazyOptions = {
+  /**
+   * @description
+   * Rendered in place of the component while its chunk is loading.
+   */
+  fallback?: unknown;
+};
+
+/**
+ * @description
+ * Component class rendering the component of a module once it is loaded.
+ */
+export type LazyComponent = typeof Newstack & {
+  /**
+   * @description
+   * The id of the imported module, such as `src/Profile`, set by the builder.
+   */
+  module?: string;
+
+  /**
+   * @description
+   * Rendered in place of the component while its chunk is loading.
+   */
+  fallback?: unknown;
+
+  /**
+   * @description
+   * The loaded component class, null until it is loaded.
+   */
+  component: typeof Newstack | null;
+
+  /**
+   * @description
+   * Loads the module once and resolves with its component class.
+   */
+  load(): Promise<typeof Newstack>;
+};
+
+/**
+ * @description
+ * Declares a component whose code is only loaded when it is rendered, so each lazy
+ * route is split into its own chunk. The module default export is used, or its first
+ * export extending `Newstack`. The fallback is rendered while the chunk loads, and
+ * the server preloads the chunks of the lazy components rendered by the matched route.
+ *
+ * @example
+ * ```tsx
+ * const Profile = lazy(() => import("./Profile"), { fallback: <p>Loading...</p> });
+ *
+ * <Profile route="/profile/:id" />
+ * ```
+ *
+ * @param loader The dynamic import of the module.
+ * @param options The fallback rendered while loading.
+ * @returns The lazy component class.
+ */
+export function lazy(
+  loader: LazyLoader,
+  options: LazyOptions = {},
+): LazyComponent {
+  let loading: Promise<typeof Newstack> | null = null;
+
+  class Lazy extends Newstack {
+    static module = loader.module;
+    static fallback = options.fallback;
+    static component: typeof Newstack | null = null;
+
+    static load() {
+      if (!loading) {
+        loading = loader().then((exports) => {
+          Lazy.component = componentOf(exports);
+          return Lazy.component;
+        });
+
+        // A failed load is tried again by the next renderer loading it
+        loading.catch(() => {
+          loading = null;
+        });
+      }
+
+      return loading;
+    }
+  }
+
+  registerLazyModule(Lazy as unknown as LazyComponent);
+
+  return Lazy as unknown as LazyComponent;
+}
+
+/**
+ * @description
+ * Whether a JSX node type is a lazy component.
+ *
+ * @param type The node type.
+ */
+export function isLazyComponent(type: unknown): type is LazyComponent {
+  return (
+    typeof type === "function" &&
+    type.prototype instanceof Newstack &&
+    typeof (type as LazyComponent).load === "function"
+  );
+}
+
+function componentOf(exports: Record<string, unknown>): typeof Newstack {
+  const candidates = [exports.default, ...Object.values(exports)];
+  const component = candidates.find(
+    (value) =>
+      typeof value === "function" && value.prototype instanceof Newstack,
+  );
+
+  if (!component) {
+    throw new Error("The lazy module does not export a Newstack component.");
+  }
+
+  return component as typeof Newstack;
+}
@@ -0,0 +1,102 @@
+import type { RenderedNode } from "./dom";
+
+/**
+ * @description
+ * Object and property pair that `ref={this.element}` is compiled into by the builder,
+ * or a callback receiving the element.
+ */
+export type NewstackRef =
+  | { object: any; property: string | number }
+  | ((element: Element | null) => unknown);
+
+/**
+ * @description
+ * Collects the refs of rendered nodes along with the DOM elements they point to.
+ *
+ * @param nodes The rendered nodes.
+ * @param scope When given, only refs from the render output of this component are collected.
+ * @returns The ref and element pairs.
+ */
+export function collectRefs(
+  nodes: RenderedNode[],
+  scope?: string,
+  refs: [NewstackRef, Element][] = [],
+): [NewstackRef, Element][] {
+  for (const node of nodes) {
+    if (node.ref && node.dom && (!scope || node.scope === scope)) {
+      refs.push([node.ref, node.dom as Element]);
+    }
+
+    collectRefs(node.children, scope, refs);
+  }
+
+  return refs;
+}
+
+/**
+ * @description
+ * Clears the refs that are no longer rendered and assigns the current ones.
+ * Refs still pointing to the same element are left as they are, so method
+ * refs are only called when their element changes.
+ *
+ * @param previous The ref and element pairs before patching.
+ * @param current The ref and element pairs after patching.
+ */
+export function updateRefs(
+  previous: [NewstackRef, Element][],
+  current: [NewstackRef, Element][],
+) {
+  for (const [ref, element] of previous) {
+    const kept = current.some(([other]) => isSameRef(ref, other));
+    if (!kept) setRef(ref, null, element);
+  }
+
+  for (const [ref, element] of current) {
+    const unchanged = previous.some(
+      ([other, previousElement]) =>
+        previousElement === element && isSameRef(ref, other),
+    );
+    if (!unchanged) setRef(ref, element);
+  }
+}
+
+/**
+ * @description
+ * Assigns an element to a ref. When clearing, object refs are only cleared
+ * if they still point to the expected element. Object refs naming a method,
+ * such as `ref={this.setElement}`, call it with the element instead.
+ *
+ * @param ref The ref.
+ * @param element The element, or null to clear the ref.
+ * @param expected The element the ref is expected to point to when clearing.
+ */
+export function setRef(
+  ref: NewstackRef,
+  element: Element | null,
+  expected?: Element,
+) {
+  if (typeof ref === "function") {
+    ref(element);
+    return;
+  }
+
+  if (!ref?.object) return;
+
+  const current = ref.object[ref.property];
+  if (typeof current === "function") {
+    current.call(ref.object, element);
+    return;
+  }
+
+  if (element === null && expected && current !== expected) return;
+  if (current === element) return;
+
+  ref.object[ref.property] = element;
+}
+
+function isSameRef(a: NewstackRef, b: NewstackRef): boolean {
+  if (a === b) return true;
+  if (typeof a === "function" || typeof b === "function") return false;
+
+  return a.object === b.object && a.property === b.property;
+}
@@ -0,0 +1,101 @@
+/* ---------- Framework ---------- */
+import type { Newstack } from "./core";
+import type { LazyComponent } from "./lazy";
+
+/**
+ * @description
+ * Component classes of the server bundle, by hash. The builder registers
+ * each class when its module is evaluated.
+ */
+const components = new Map<string, typeof Newstack>();
+
+/**
+ * @description
+ * Lazy components by the id of the module they import, such as `src/Profile`.
+ */
+const lazyModules = new Map<string, LazyComponent>();
+
+/**
+ * @description
+ * Classes replaced by the newer version of their module, collected on hot reload.
+ */
+let replaced: Map<typeof Newstack, typeof Newstack> | null = null;
+
+/**
+ * @description
+ * Registers a component class by its hash. The builder adds a call to it
+ * to every class extending Newstack. A class registered again, when its
+ * module is evaluated again on hot reload, replaces the previous one.
+ *
+ * @param Component The component class.
+ */
+export function registerComponent(Component: typeof Newstack) {
+  const previous = components.get(Component.hash);
+  components.set(Component.hash, Component);
+
+  if (!previous || previous === Component) return;
+
+  for (const Lazy of lazyModules.values()) {
+    if (Lazy.component === previous) Lazy.component = Component;
+  }
+
+  replaced?.set(previous, Component);
+}
+
+/**
+ * @description
+ * Registers a lazy component by the module it imports, so the classes of
+ * that module can be found before the component is rendered.
+ *
+ * @param Lazy The lazy component.
+ */
+export function registerLazyModule(Lazy: LazyComponent) {
+  if (!Lazy.module) return;
+
+  // A lazy component evaluated again on hot reload renders the loaded class right away
+  const previous = lazyModules.get(Lazy.module);
+  if (previous?.component) Lazy.component = previous.component;
+
+  lazyModules.set(Lazy.module, Lazy);
+}
+
+/**
+ * @description
+ * Finds a component class by its hash. Classes of lazy modules are only
+ * registered once their module is loaded, so the module of the class,
+ * listed in the build manifest, is loaded when it is not registered yet.
+ *
+ * @param hash The hash of the component.
+ * @param module The id of the module declaring the component.
+ * @returns The component class if found, otherwise null.
+ */
+export async function findComponent(
+  hash: string,
+  module?: string,
+): Promise<typeof Newstack | null> {
+  const Lazy = module && lazyModules.get(module);
+  if (!components.has(hash) && Lazy) await Lazy.load();
+
+  return components.get(hash) ?? null;
+}
+
+/**
+ * @description
+ * Runs a function, such as importing the chunks of a hot reload,
+ * and collects the component classes replaced meanwhile.
+ *
+ * @param run The function to run.
+ * @returns The newer class of each replaced class.
+ */
+export async function collectReplacedComponents(
+  run: () => Promise<unknown>,
+): Promise<Map<typeof Newstack, typeof Newstack>> {
+  replaced = new Map();
+
+  try {
+    await run();
+    return replaced;
+  } finally {
+    replaced = null;
+  }
+}
@@ -1,13 +1,40 @@
+import {
+  type NewstackBind,
+  bindAttributes,
+  bindOptions,
+  bindValue,
+} from "./bind";
 import { Newstack, type NewstackClientContext } from "./core";
+import { type RenderedNode, createNode, patchChildren, patchNode } from "./dom";
+import { RAW_HTML, stringify } from "./html";
+import { type LazyComponent, isLazyComponent } from "./lazy";
+import { type NewstackRef, collectRefs, setRef, updateRefs } from "./ref";
+import { compareRoutes, joinRoutes, matchRoute, queryParams } from "./router";
+import { deserialize } from "./serializer";
 
 type VNode = {
   type: string | Function;
   props?: Record<string, unknown> & {
     route?: string;
+    key?: string | number;
     children?: VNode | VNode[];
   };
 };
 
+type ComponentInstance = {
+  /**
+   * @description
+   * The proxified component instance.
+   */
+  component: Newstack;
+
+  /**
+   * @description
+   * The JSX attributes the component was last rendered with.
+   */
+  props: Record<string, unknown>;
+};
+
 export class Renderer {
   /**
    * @description
@@ -20,329 +47,872 @@ export class Renderer {
 
   /**
    * @description
-   * A set of all Newstack components that have been defined in the application.
-   * This includes components that have not yet been rendered.
+   * A map of all Newstack component instances that have been rendered, indexed by their instance id.
+   * Instance ids are built from the parent instance id, the position (or `key`) of the
+   * component in the parent render output and its class, so the same class can be rendered
+   * many times, and another class rendered at the same position is a new instance.
+   */
+  components: Map<string, ComponentInstance>;
+
+  /**
+   * @description
+   * A map of all Newstack component classes found in the application tree, indexed by their hash.
+   */
+  classes: Map<string, typeof Newstack>;
+
+  /**
+   * @description
+   * The `route` patterns found in the application tree, such as `/profile/:id`.
+   */
+  routes: Set<string> = new Set();
+
+  /**
+   * @description
+   * The component classes rendered directly by each `route` pattern, including lazy ones.
    */
-  components: Map<string, { component: Newstack; reinitiate: () => Newstack }>;
+  routeTypes: Map<string, Set<typeof Newstack>> = new Map();
 
   /**
    * @description
-   * A set of hashes representing the components that are currently visible in the application.
+   * A set of instance ids representing the components that are currently visible in the application.
    * This is used to track which components should be rendered based on the current route.
    */
-  visibleHashes: Set<string> = new Set();
+  visibleIds: Set<string> = new Set();
 
   /**
    * @description
-   * A map that associates Newstack components with their corresponding HTML elements.
+   * A map that associates Newstack component instance ids with their corresponding HTML elements.
    * This is used to update the DOM when component properties change.
    */
   componentElements: Map<string, Element>;
-  lastVNode: any;
+
+  /**
+   * @description
+   * The instance id of the application entrypoint component.
+   */
+  entrypoint: string;
+
+  /**
+   * @description
+   * The rendered tree of the current route, reconciled on every navigation.
+   */
+  tree: RenderedNode[];
+
+  /**
+   * @description
+   * The root rendered node of each visible component instance, reconciled when the component updates.
+   */
+  rendered: Map<string, RenderedNode>;
+
+  /**
+   * @description
+   * Loads of the lazy components rendered with their fallback, removed once done.
+   */
+  loading: Map<LazyComponent, Promise<void>> = new Map();
+
+  /**
+   * @description
+   * The lazy components that failed to load, which keep rendering their fallback
+   * instead of being loaded on every render.
+   */
+  private failed: Set<LazyComponent> = new Set();
+
+  /**
+   * @description
+   * The modules of the lazy components rendered, such as `src/Profile`, whose
+   * chunks the server preloads.
+   */
+  lazyModules: Set<string> = new Set();
+
+  /**
+   * @description
+   * Whether components are being prepared and hydrated, so navigations they start
+   * are redirects.
+   */
+  starting = false;
+
+  /**
+   * @description
+   * The element the route is rendered into in the client.
+   */
+  private container: Element;
+
+  /**
+   * @description
+   * The pattern relative routes are resolved against while resolving, which is the
+   * pattern of the closest matched route, and the one of each component instance.
+   */
+  private routeBase = "/";
+  private routeBases: Map<string, string> = new Map();
+
+  /**
+   * @description
+   * Called in the server before a component is rendered. When it returns a node,
+   * the node is rendered in place of the component output, which is how streaming
+   * rendering defers the components whose `prepare` is still running.
+   */
+  boundary?: (id: string) => RenderedNode | null;
+
+  /**
+   * @description
+   * Whether a route other than a `*` fallback matched the path, and whether a `*`
+   * route was rendered as the fallback of its sibling routes. Reset by `resetParams`.
+   */
+  private routeMatch = { matched: false, fallback: false };
+
+  /**
+   * @description
+   * Hydration state sent by the server, read once on the first client render.
+   */
+  private snapshots: Record<string, { state: unknown }>;
 
   constructor(context: NewstackClientContext = {} as NewstackClientContext) {
     this.context = context;
     this.components = new Map();
+    this.classes = new Map();
     this.componentElements = new Map();
+    this.rendered = new Map();
   }
 
   get hashes(): string[] {
-    return Array.from(this.components.keys());
+    return Array.from(this.classes.keys());
   }
 
   /**
    * @description
-   * Finds a Newstack component by its static hash property.
-   * This function iterates through the components map and checks if the
-   * component's constructor has a matching hash. If found, it returns the component.
+   * Finds a Newstack component class by its static hash property.
    *
    * @param hash The hash of the component to find.
-   * @returns The Newstack component if found, otherwise null.
+   * @returns The Newstack component class if found, otherwise null.
    */
-  findComponentByHash(hash: string): Newstack {
-    for (const [_, { component: c }] of this.components) {
-      const component = c.constructor as typeof Newstack<{ hash: string }>;
-      if (!component) continue;
+  findComponentByHash(hash: string): typeof Newstack {
+    return this.classes.get(hash) ?? null;
+  }
 
-      if (component.hash === hash) return c;
-    }
+  /**
+   * @description
+   * Returns the context given to a component instance, which is the renderer context
+   * merged with the JSX attributes the component was rendered with and its root `element`.
+   *
+   * @param id The instance id of the component.
+   * @returns The component context.
+   */
+  contextFor(id: string): NewstackClientContext {
+    const props = this.components.get(id)?.props;
+    if (!props) return this.context;
+
+    const elements = this.componentElements;
 
-    return null;
+    return withProps(this.context, {
+      ...props,
+      get element() {
+        return elements.get(id);
+      },
+    });
   }
 
   /**
    * @description
    * Renders a Newstack component tree to HTML.
-   * This function recursively traverses the component tree, converting each component
-   * and its properties into an HTML string. It handles both standard HTML elements
-   * and Newstack components, allowing for dynamic rendering based on the current context.
+   * This function resolves the component tree and serializes it into an HTML string.
+   * It handles both standard HTML elements and Newstack components, allowing for
+   * dynamic rendering based on the current context.
    *
    * @param node The component or element to render.
+   * @param scope The instance id of the component that rendered this node.
    * @returns A string representing the rendered HTML.
    */
-  html(node: VNode): string {
-    if (typeof node === "string" || typeof node === "number")
-      return String(node);
-    if (node === null || typeof node !== "object") return "";
+  html(node: VNode, scope: string = this.entrypoint): string {
+    return stringify(this.resolve(node, scope));
+  }
+
+  /**
+   * @description
+   * Resolves a virtual node tree into rendered nodes, replacing every Newstack
+   * component by its render output. Components are instantiated on demand and marked as visible.
+   *
+   * @param node The component or element to resolve.
+   * @param scope The instance id of the component that rendered this node.
+   * @param position The position of the node inside the render output of the scope.
+   * @returns The rendered nodes.
+   */
+  resolve(node: VNode, scope: string, position = "0"): RenderedNode[] {
+    if (typeof node === "string" || typeof node === "number") {
+      return [{ type: "#text", text: String(node), props: {}, children: [] }];
+    }
+
+    if (Array.isArray(node)) {
+      return this.resolveChildren(node, scope, position);
+    }
+
+    if (node === null || typeof node !== "object") return [];
 
     const { type, props } = node;
 
     // Skip rendering if the route does not match
-    if (props?.route) {
-      const matchAll = props.route === "*";
-      const matchPath = matchRoute(props.route, this.context);
+    if (typeof props?.route === "string") {
+      const pattern = joinRoutes(this.routeBase, props.route);
+      const params = matchRoute(pattern, this.context.router?.path ?? "/");
 
-      if (!matchAll && !matchPath) {
+      if (!params) {
         // Skip with an HTML comment for context router.path changing
-        return "<!---->";
+        return [{ type: "#comment", props: {}, children: [], key: props.key }];
       }
+
+      // Route params are set for the components rendered by the route
+      Object.assign(this.context.params, params);
+      if (pattern !== "*") this.routeMatch.matched = true;
+
+      // Routes nested in this one are relative to its pattern
+      const base = this.routeBase;
+      this.routeBase = pattern;
+      const nodes = this.resolveNode(
+        node,
+        scope,
+        routePosition(position, params),
+      );
+      this.routeBase = base;
+
+      return nodes;
     }
 
+    return this.resolveNode(node, scope, position);
+  }
+
+  /**
+   * @description
+   * Resolves the children of a node. When some of them have a `route`, only the
+   * most specific one matching the current path is rendered, so `*` can be used
+   * as a fallback for the paths no other route matches.
+   *
+   * @param children The children to resolve.
+   * @param scope The instance id of the component that rendered the children.
+   * @param position The position of the parent node.
+   * @returns The rendered nodes.
+   */
+  private resolveChildren(
+    children: VNode[],
+    scope: string,
+    position: string,
+  ): RenderedNode[] {
+    const path = this.context.router?.path ?? "/";
+
+    const matched = children
+      .map((child, i) => ({ i, route: routeOf(child) }))
+      .filter(({ route }) => route !== undefined)
+      .map(({ i, route }) => ({
+        i,
+        pattern: joinRoutes(this.routeBase, route),
+      }))
+      .filter(({ pattern }) => matchRoute(pattern, path))
+      .sort((a, b) => compareRoutes(a.pattern, b.pattern) || a.i - b.i)[0];
+
+    if (matched?.pattern === "*" && children.filter(routeOf).length > 1) {
+      this.routeMatch.fallback = true;
+    }
+
+    return children.flatMap((child, i) => {
+      if (routeOf(child) !== undefined && i !== matched?.i) {
+        const key = (child as VNode).props?.key;
+        return [{ type: "#comment", props: {}, children: [], key }];
+      }
+
+      return this.resolve(child, scope, `${position}.${i}`);
+    });
+  }
+
+  /**
+   * @description
+   * Resolves a component or an element, once its route matched.
+   */
+  private resolveNode(
+    node: VNode,
+    scope: string,
+    position: string,
+  ): RenderedNode[] {
+    const { type, props } = node;
     const isComponent = isComponentNode(node);
 
+    // Rendering the loaded component of lazy components, or their fallback
+    if (isLazyComponent(type)) {
+      if (type.module) this.lazyModules.add(type.module);
+
+      if (type.component) {
+        const loaded = { ...node, type: type.component };
+        return this.resolveNode(loaded, scope, position);
+      }
+
+      this.load(type, scope);
+      return this.resolve(
+        type.fallback as VNode,
+        scope,
+        `${position}.fallback`,
+      );
+    }
+
     // Rendering Newstack components
     if (isComponent) {
-      const { hash } = type as unknown as { hash: string };
-      let { component, reinitiate } = this.components.get(hash);
-      if (this.context.environment === "client") {
-        component = reinitiate();
-
-        if (!this.lastVNode) {
-          // First render in the client
-          const snapshots = document.querySelector<HTMLScriptElement>(
-            "script#__NEWSTACK_STATE__",
-          );
-
-          if (snapshots) {
-            const states = JSON.parse(snapshots.textContent || "{}");
-            this.addSnapshotStateData(component, states);
-          }
-        }
-      }
+      const id = instanceId(
+        scope,
+        position,
+        props?.key,
+        node.type as unknown as typeof Newstack,
+      );
+      const component = this.instantiate(node, id);
 
-      this.visibleHashes.add(hash);
+      this.visibleIds.add(id);
+      this.routeBases.set(id, this.routeBase);
 
-      const isRenderable = isRenderableComponent(component);
+      if (!isRenderableComponent(component)) return [];
 
-      if (isRenderable) {
-        const vnode = component.render?.(this.context);
-        if (this.context.environment === "client") {
-          vnode.props["data-newstack"] = hash;
-        }
+      const placeholder = this.boundary?.(id);
+      if (placeholder) return [placeholder];
 
-        const node = this.html(vnode);
-        return node;
+      const nodes = this.resolveComponent(id);
+
+      if (nodes[0]) {
+        nodes[0].key = props?.key ?? nodes[0].key;
+        this.rendered.set(id, nodes[0]);
       }
+
+      return nodes;
     }
 
-    const children = Array.isArray(props?.children)
-      ? props.children.map((c) => this.html(c)).join("")
-      : this.html(props?.children);
+    const { children, key, route, bind, ref, ...attributes } = props || {};
+
+    const rendered: RenderedNode = {
+      type: type as string,
+      props: bind
+        ? bindAttributes(type as string, attributes, bind as NewstackBind)
+        : attributes,
+      key,
+      scope,
+      ref: ref as NewstackRef,
+      // Raw HTML replaces the children of the element
+      children: attributes[RAW_HTML]
+        ? []
+        : this.resolveChildren(toArray(children), scope, position),
+    };
 
-    const attrs = Object.entries(props || {})
-      .filter(([key]) => !["route", "children"].includes(key))
-      .filter(([key, val]) => {
-        const isFunc = typeof val === "function";
+    if (bind && type === "select") {
+      bindOptions(rendered.children, bind as NewstackBind);
+    }
 
-        return !isFunc;
-      })
-      .map(([key, val]) => ` ${key}="${val}"`)
-      .join("");
+    return [rendered];
+  }
+
+  /**
+   * @description
+   * Resolves the render output of an instantiated component.
+   *
+   * @param id The instance id of the component.
+   * @returns The rendered nodes of the component.
+   */
+  resolveComponent(id: string): RenderedNode[] {
+    const { component } = this.components.get(id);
+    const vnode = component.render(this.contextFor(id));
+
+    const base = this.routeBase;
+    this.routeBase = this.routeBases.get(id) ?? "/";
+    const nodes = this.resolve(vnode, id);
+    this.routeBase = base;
 
-    return `<${type}${attrs}>${children}</${type}>`;
+    return nodes;
+  }
+
+  /**
+   * @description
+   * Whether the current path is not found: the application has routes but none of them
+   * matched, or a `*` route was rendered as the fallback of its sibling routes.
+   */
+  get notFound(): boolean {
+    const { matched, fallback } = this.routeMatch;
+    return fallback || (this.routes.size > 0 && !matched);
+  }
+
+  /**
+   * @description
+   * Clears the params and the route match of the previous path and sets the query params
+   * of the current one. Route params are added while the routes are resolved.
+   */
+  resetParams() {
+    const { params, router } = this.context;
+    this.routeMatch = { matched: false, fallback: false };
+
+    for (const key of Object.keys(params)) delete params[key];
+    Object.assign(params, queryParams(router.path ?? "/"));
+  }
+
+  /**
+   * @description
+   * Returns the component instance for a given instance id, creating it if it does not exist yet.
+   * The JSX attributes of the node are stored as the component props on every render.
+   *
+   * @param node The component virtual node.
+   * @param id The instance id of the component.
+   * @returns The Newstack component instance.
+   */
+  private instantiate(node: VNode, id: string): Newstack {
+    const type = node.type as unknown as new () => Newstack;
+    const { children, key, ...props } = node.props || {};
+    const entry = this.components.get(id);
+
+    // Bound components receive the current value along with the bind
+    if (props.bind) props.value = bindValue(props.bind as NewstackBind);
+
+    if (entry && entry.component.constructor === type) {
+      entry.props = { ...props, children };
+      return entry.component;
+    }
+
+    const component = proxify(withInstanceId(new type(), id), this);
+    this.components.set(id, { component, props: { ...props, children } });
+
+    if (this.context.environment === "client" && !this.tree) {
+      // First render in the client
+      this.addSnapshotStateData(component, this.readSnapshots());
+    }
+
+    return component;
+  }
+
+  /**
+   * @description
+   * Reads the hydration state sent by the server in the `__NEWSTACK_STATE__` script.
+   *
+   * @returns An object containing state data indexed by component instance ids.
+   */
+  private readSnapshots(): Record<string, { state: unknown }> {
+    if (this.snapshots) return this.snapshots;
+
+    const script = document.querySelector<HTMLScriptElement>(
+      "script#__NEWSTACK_STATE__",
+    );
+
+    this.snapshots = deserialize(script?.textContent || "{}");
+    return this.snapshots;
   }
 
   /**
    * @description
    * Adds state data from a snapshot to a Newstack component.
-   * This function retrieves the state from the provided states object using the component's hash
+   * This function retrieves the state from the provided states object using the component's instance id
    * and assigns the state properties to the component instance.
    *
    * @param component The Newstack component to which the state data should be added.
-   * @param states An object containing state data indexed by component hashes.
+   * @param states An object containing state data indexed by component instance ids.
    */
   addSnapshotStateData(
     component: Newstack,
     states: Record<string, { state: unknown }>,
   ) {
-    const { hash } = component.constructor as typeof Newstack;
-    const { state } = states[hash];
+    const state = states[instanceIdOf(component)]?.state;
 
     if (!state) return;
 
     for (const [key, value] of Object.entries(state)) {
-      this.components.get(hash).component[key] = value;
+      component[key] = value;
     }
   }
 
   /**
    * @description
    * Patches an existing route in the DOM with a new virtual node.
-   * This function updates the HTML of the container element with the new virtual node,
-   * replacing the old content while preserving the structure and attributes of the existing elements.
+   * The first render replaces the server-rendered HTML, following ones reconcile
+   * the previous rendered tree with the new one, touching only what changed.
    *
    * @param newVNode The new virtual node to render.
    * @param container The HTML element where the new virtual node should be rendered.
    */
   patchRoute(newVNode: VNode, container: Element) {
-    if (!this.lastVNode) {
-      container.innerHTML = this.html(newVNode);
-      this.lastVNode = newVNode;
-      return;
+    const tree = this.resolve(newVNode, this.entrypoint);
+    const wrap = this.wrapEvent.bind(this);
+
+    this.container = container;
+
+    const refs = collectRefs(this.tree ?? []);
+
+    if (!this.tree) {
+      container.replaceChildren(...tree.map((node) => createNode(node, wrap)));
+    } else {
+      patchChildren(container, this.tree, tree, wrap);
     }
 
-    const temp = document.createElement("div");
-    temp.innerHTML = this.html(newVNode);
-    const newEl = temp.firstElementChild;
-    const oldEl = container.firstElementChild;
+    this.tree = tree;
+    this.syncElements(Array.from(this.visibleIds));
 
-    if (newEl && oldEl) {
-      patchElement(oldEl, newEl, newVNode, () => {});
+    updateRefs(refs, collectRefs(tree));
+  }
+
+  /**
+   * @description
+   * Resolves a render output without rendering it until every lazy component it
+   * renders is loaded, so the first render shows them instead of their fallback.
+   *
+   * @param render Returns the render output of the application.
+   */
+  async loadLazyComponents(render: () => VNode) {
+    for (;;) {
+      this.resetParams();
+      this.resolve(render(), this.entrypoint);
+      this.visibleIds.clear();
+
+      if (!this.loading.size) return;
+      await Promise.all(this.loading.values());
+    }
+  }
+
+  /**
+   * @description
+   * Loads a lazy component rendered with its fallback. In the client, the component
+   * that rendered it is updated once it is loaded, unless nothing is rendered yet.
+   *
+   * @param Lazy The lazy component.
+   * @param scope The instance id of the component that rendered it.
+   */
+  private load(Lazy: LazyComponent, scope: string) {
+    if (this.loading.has(Lazy) || this.failed.has(Lazy)) return;
+
+    const loading = Lazy.load()
+      .then(() => {
+        if (!this.tree) return;
+
+        if (scope === this.entrypoint) {
+          this.updateEntrypoint();
+          return;
+        }
+
+        const entry = this.components.get(scope);
+        if (entry && this.visibleIds.has(scope)) {
+          this.updateComponent(entry.component);
+        }
+      })
+      .catch((error) => {
+        this.failed.add(Lazy);
+        console.error(error);
+      })
+      .finally(() => this.loading.delete(Lazy));
+
+    this.loading.set(Lazy, loading);
+  }
+
+  /**
+   * @description
+   * Swaps component classes for their newer version on hot reload. The instances
+   * keep their state and get the methods of the newer class, then the route is
+   * rendered again in place.
+   *
+   * @param replaced The newer class of each replaced class.
+   */
+  replaceComponents(replaced: Map<typeof Newstack, typeof Newstack>) {
+    if (!replaced.size) return;
+
+    for (const { component } of this.components.values()) {
+      const Next = replaced.get(component.constructor as typeof Newstack);
+      if (Next) Object.setPrototypeOf(component, Next.prototype);
     }
 
-    this.lastVNode = newVNode;
+    for (const [hash, Component] of this.classes) {
+      if (replaced.has(Component))
+        this.classes.set(hash, replaced.get(Component));
+    }
+
+    for (const types of this.routeTypes.values()) {
+      for (const type of Array.from(types)) {
+        if (!replaced.has(type)) continue;
+
+        types.delete(type);
+        types.add(replaced.get(type));
+      }
+    }
+
+    this.updateEntrypoint();
+  }
+
+  /**
+   * @description
+   * Renders the route again in place, starting the components that appeared
+   * and destroying the ones that disappeared.
+   */
+  private updateEntrypoint() {
+    const { component } = this.components.get(this.entrypoint);
+    const previous = Array.from(this.visibleIds);
+
+    this.visibleIds.clear();
+    this.resetParams();
+    this.patchRoute(component.render(this.context), this.container);
+
+    const current = Array.from(this.visibleIds);
+    this.destroyComponents(previous.filter((id) => !current.includes(id)));
+    this.startComponents(current.filter((id) => !previous.includes(id)));
   }
 
   /**
    * @description
    * Updates a Newstack component in the DOM.
-   * This function finds the HTML element associated with the component,
-   * renders the component to a new HTML string, and then patches the existing
-   * element with the new HTML.
+   * This function renders the component again and reconciles its previous rendered
+   * tree with the new one, patching the existing elements in place.
+   * Child components that appeared are started and the ones that disappeared are destroyed.
    *
    * @param component The Newstack component to update.
    */
   updateComponent(component: Newstack) {
     if (typeof document === "undefined") return;
 
-    const staticComponent = component.constructor as typeof Newstack;
+    const id = instanceIdOf(component);
 
-    const container = this.componentElements.get(staticComponent.hash);
-    if (!container) return;
+    const previousNode = this.rendered.get(id);
+    if (!previousNode?.dom || !this.componentElements.has(id)) return;
 
-    const vnode = component.render(this.context);
-    const html = this.html(vnode);
+    const previous = this.descendantsOf(id);
+    for (const child of previous) this.visibleIds.delete(child);
 
-    const temp = document.createElement("div");
-    temp.innerHTML = html;
+    const [node] = this.resolveComponent(id);
+    if (!node) return;
 
-    const newEl = temp.firstElementChild;
-    if (!newEl) return;
+    const refs = collectRefs([previousNode]);
 
-    patchElement(container, newEl, vnode, () =>
-      this.updateComponent(component),
-    );
+    node.key = previousNode.key;
+    patchNode(previousNode, node, this.wrapEvent.bind(this));
+
+    // Keeps the parent rendered tree pointing to the up-to-date node
+    Object.assign(previousNode, node);
+    for (const [key, value] of this.rendered) {
+      if (value === node) this.rendered.set(key, previousNode);
+    }
+
+    const current = this.descendantsOf(id);
+    const removed = previous.filter((child) => !current.includes(child));
+    const added = current.filter((child) => !previous.includes(child));
+
+    this.destroyComponents(removed);
+    this.syncElements([id, ...current]);
+    this.startComponents(added);
+
+    updateRefs(refs, collectRefs([previousNode]));
   }
 
   /**
    * @description
-   * Sets up all components in the application, including the entrypoint component and its children.
-   * This function initializes the components, creates proxies for them to ensure reactivity,
-   * and recursively processes child components to add them to the renderer's component list.
+   * Wraps an event handler so the component owning the element is updated after it runs,
+   * which covers state changes the proxies cannot see, such as `array.push`.
    *
-   * @param entrypoint The main entrypoint component of the application.
-   * @param context The context object that holds the current state of the application.
+   * @param handler The event handler.
+   * @param scope The instance id of the component owning the element.
    */
-  setupAllComponents(entrypoint: Newstack) {
-    /**
-     * Sets up the entrypoint component as part of the renderer's components.
-     */
-    const setupEntrypoint = () => {
-      const entrypointHash = (entrypoint.constructor as typeof Newstack).hash;
-      const reinitiate = () => {
-        const component = proxify(new (entrypoint.constructor as any)(), this);
-        this.components.get(entrypointHash).component = component;
-        return component;
-      };
+  private wrapEvent(handler: (e: Event) => unknown, scope: string) {
+    return (e: Event) => {
+      const result = handler(e);
 
-      this.components.set(entrypointHash, {
-        component: proxify(entrypoint, this),
-        reinitiate,
-      });
+      const entry = this.components.get(scope);
+      if (entry) this.updateComponent(entry.component);
+
+      return result;
     };
+  }
+
+  /**
+   * @description
+   * Returns the instance ids of all visible components rendered inside a given component.
+   *
+   * @param id The instance id of the parent component.
+   * @returns The visible descendant instance ids.
+   */
+  descendantsOf(id: string): string[] {
+    return Array.from(this.visibleIds).filter((child) =>
+      child.startsWith(`${id}/`),
+    );
+  }
+
+  /**
+   * @description
+   * Associates Newstack component instances with the root element of their rendered tree.
+   *
+   * @param ids The instance ids of the components.
+   */
+  syncElements(ids: string[]) {
+    for (const id of ids) {
+      const element = this.rendered.get(id)?.dom;
+      if (element instanceof Element) this.componentElements.set(id, element);
+      else this.componentElements.delete(id);
+    }
+  }
+
+  /**
+   * @description
+   * Prepares and hydrates the given component instances.
+   *
+   * @param ids The instance ids of the components.
+   */
+  startComponents(ids: string[]) {
+    this.starting = true;
+
+    try {
+      for (const id of ids) {
+        const entry = this.components.get(id);
+        if (!entry) continue;
+
+        const context = this.contextFor(id);
+        entry.component.prepare?.(context);
+        entry.component.hydrate?.(context);
+      }
+    } finally {
+      this.starting = false;
+    }
+  }
 
+  /**
+   * @description
+   * Destroys the given component instances and forgets them, so they are
+   * created again with a fresh state the next time they are rendered.
+   *
+   * @param ids The instance ids of the components.
+   */
+  destroyComponents(ids: string[]) {
+    for (const id of ids) {
+      const entry = this.components.get(id);
+      if (!entry) continue;
+
+      entry.component.destroy?.(this.contextFor(id));
+
+      const rendered = this.rendered.get(id);
+      const refs = collectRefs(rendered ? [rendered] : [], id);
+
+      this.components.delete(id);
+      this.componentElements.delete(id);
+      this.rendered.delete(id);
+      this.visibleIds.delete(id);
+
+      // Cleared once forgotten, so clearing does not update the component again
+      for (const [ref, element] of refs) setRef(ref, null, element);
+    }
+  }
+
+  /**
+   * @description
+   * Sets up the entrypoint component of the application and registers every component
+   * class found in the application tree, so they can be looked up by their hash.
+   * Component instances are created lazily, when they are rendered.
+   *
+   * @param entrypoint The main entrypoint component of the application.
+   */
+  setupAllComponents(entrypoint: Newstack) {
     /**
-     * Sets up all child components recursively from a given virtual node.
+     * Registers all child component classes recursively from a given virtual node.
      * This function traverses the virtual node tree, identifies Newstack components,
-     * and adds them to the renderer's components map. It also handles the creation
-     * of proxies for each component to ensure reactivity.
+     * and adds their classes to the renderer's classes map and their routes to the routes set.
      *
      * @param vnode The virtual node to start processing from.
      */
     const setupChildrenRecursively = (vnode: VNode) => {
-      const loop = (node: VNode) => {
+      const loop = (node: VNode, base: string) => {
         if (!node) return;
         if (typeof node !== "object") return;
 
+        if (Array.isArray(node)) {
+          for (const child of node) {
+            loop(child, base);
+          }
+
+          return;
+        }
+
         const { type, props } = node;
+        let pattern = base;
 
-        if (isComponentNode(node)) {
-          const hash = (type as unknown as { hash: string }).hash;
-          const createComponent = () => proxify(new (type as any)(), this);
-          const component = createComponent();
-          const reinitiate = () => {
-            const c = createComponent();
-            this.components.get(hash).component = createComponent();
-            return c;
-          };
+        if (typeof props?.route === "string") {
+          pattern = joinRoutes(base, props.route);
 
-          this.components.set(hash, { component, reinitiate });
+          if (pattern !== "*") {
+            this.routes.add(pattern);
 
-          if (isRenderableComponent(component)) {
-            loop(component.render(this.context));
+            if (isComponentNode(node)) {
+              const types = this.routeTypes.get(pattern) ?? new Set();
+              this.routeTypes.set(pattern, types.add(type as typeof Newstack));
+            }
           }
         }
 
-        if (Array.isArray(props?.children)) {
-          for (const child of props.children) {
-            loop(child);
+        if (isLazyComponent(type)) {
+          if (type.component) {
+            loop({ ...node, type: type.component }, base);
+          } else if (this.context.environment === "server") {
+            // The server loads every lazy component, to find their server functions
+            const loading = type
+              .load()
+              .then(() => loop(node, base))
+              .catch((error) => console.error(error))
+              .finally(() => this.loading.delete(type));
+
+            this.loading.set(type, loading);
           }
 
           return;
         }
 
-        loop(props.children);
-      };
-
-      loop(vnode);
-    };
-
-    /**
-     * Goes through all the tree and sets up the default visible hashes.
-     */
-    const setupDefaultVisibleHashes = (vnode: VNode) => {
-      const loop = (node: VNode) => {
-        if (!node || typeof node !== "object") return;
-
-        const { type, props } = node;
-
         if (isComponentNode(node)) {
-          const hash = (type as unknown as { hash: string }).hash;
-          this.visibleHashes.add(hash);
-        }
+          const Component = type as unknown as typeof Newstack;
+          if (this.classes.has(Component.hash)) return;
 
-        if (Array.isArray(props?.children)) {
-          for (const child of props.children) {
-            loop(child);
+          this.classes.set(Component.hash, Component);
+
+          const component = new (type as any)();
+          if (isRenderableComponent(component)) {
+            loop(
+              component.render(withProps(this.context, props || {})),
+              pattern,
+            );
           }
-          return;
         }
 
-        loop(props.children);
+        for (const child of toArray(props?.children)) {
+          loop(child, pattern);
+        }
       };
 
-      loop(vnode);
+      loop(vnode, "/");
     };
 
     // Adding the entrypoint component to the components list
-    setupEntrypoint();
+    this.setupEntrypoint(entrypoint);
     if (!isRenderableComponent(entrypoint)) return;
 
     const vnode = entrypoint.render(this.context);
 
-    // Adding entrypoint children components to the components list
+    // Registering entrypoint children component classes
     setupChildrenRecursively(vnode);
-    setupDefaultVisibleHashes(vnode);
+  }
+
+  /**
+   * @description
+   * Sets up the entrypoint component of the application with the component classes
+   * and routes found by another renderer, without walking the application tree again.
+   * The server sets up its components once, then a renderer for each request this way.
+   *
+   * @param entrypoint The main entrypoint component of the application.
+   * @param renderer The renderer whose components were set up.
+   */
+  setupComponentsOf(entrypoint: Newstack, renderer: Renderer) {
+    this.classes = renderer.classes;
+    this.routes = renderer.routes;
+    this.routeTypes = renderer.routeTypes;
+
+    this.setupEntrypoint(entrypoint);
+  }
+
+  /**
+   * @description
+   * Sets up the entrypoint component as part of the renderer's components.
+   */
+  private setupEntrypoint(entrypoint: Newstack) {
+    const Entrypoint = entrypoint.constructor as typeof Newstack;
+    this.entrypoint = Entrypoint.hash;
+    this.classes.set(Entrypoint.hash, Entrypoint);
+
+    this.components.set(this.entrypoint, {
+      component: proxify(withInstanceId(entrypoint, this.entrypoint), this),
+      props: {},
+    });
   }
 }
 
@@ -365,12 +935,19 @@ function proxify(component: Newstack, renderer: Renderer): Newstack {
       return Reflect.get(target, key);
     },
     set(target, key, value) {
+      // Skip updates when the value did not change
+      if (target[key] === value) return true;
+
       target[key] = value;
 
+      // Destroyed components are not updated anymore
+      const id = instanceIdOf(target);
+      if (!renderer.components.has(id)) return true;
+
       // Automatically update the component when a property changes
       // if (renderer.context.environment === "client") {
       renderer.updateComponent(target);
-      target.update?.(renderer.context);
+      target.update?.(renderer.contextFor(id));
       // }
 
       return true;
@@ -382,128 +959,93 @@ function proxify(component: Newstack, renderer: Renderer): Newstack {
 
 /**
  * @description
- * Patches an existing HTML element with a new one.
- * This function updates the attributes of the old element to match the new element,
- * removes any attributes that are no longer present, and recursively updates the children.
+ * Builds the instance id of a component from the instance id of the component that rendered it,
+ * its position in that render output and its class. When a `key` is given it replaces the last
+ * position index, so keyed components keep their instance when siblings are reordered.
+ * The class hash makes `{cond ? <A /> : <B />}` destroy `A` and start `B` when it switches.
  *
- * @param oldEl The existing HTML element to be patched.
- * @param newEl The new HTML element that contains the updated content.
- * @param vnode The virtual node representation of the new element, used for event listeners and other properties.
- * @param update A callback function to call after the patching is complete, typically used to trigger a re-render or update in the application.
+ * @param scope The instance id of the parent component.
+ * @param position The position of the component in the parent render output.
+ * @param key The optional `key` attribute of the component.
+ * @param type The class of the component.
  */
-function patchElement(
-  oldEl: Element,
-  newEl: Element,
-  vnode?: VNode,
-  update: () => void = () => {},
-) {
-  // Update attributes
-  const oldAttrs = oldEl.attributes;
-  const newAttrs = newEl.attributes;
-
-  const vnodeChildren = Array.isArray(vnode?.props?.children)
-    ? vnode.props.children
-    : [vnode?.props?.children];
-
-  // Remove old attributes
-  Array.from(oldAttrs).forEach((attr) => {
-    if (!newEl.hasAttribute(attr.name)) {
-      oldEl.removeAttribute(attr.name);
-    }
-  });
-
-  // Set new or changed attributes
-  Array.from(newAttrs).forEach((attr) => {
-    if (oldEl.getAttribute(attr.name) !== attr.value) {
-      oldEl.setAttribute(attr.name, attr.value);
-    }
-  });
-
-  // Recursively patch children
-  const oldChildren = Array.from(oldEl.childNodes);
-  const newChildren = Array.from(newEl.childNodes);
-  const len = Math.max(oldChildren.length, newChildren.length);
-
-  // Attach event listeners from vnode to newEl
-  if (vnode?.props) {
-    Object.entries(vnode.props).forEach(([key, val]) => {
-      if (key.startsWith("on") && typeof val === "function") {
-        oldEl[key] = (e: Event) => {
-          val(e);
-          if (update) update();
-        };
-      }
-    });
-  }
-
-  for (let i = 0; i < len; i++) {
-    const oldChild = oldChildren[i];
-    const newChild = newChildren[i];
-    const vchild = vnodeChildren[i];
-
-    if (!oldChild && newChild) {
-      oldEl.appendChild(newChild.cloneNode(true));
-      continue;
-    }
+function instanceId(
+  scope: string,
+  position: string,
+  key: unknown,
+  type: typeof Newstack,
+): string {
+  const base =
+    key === undefined || key === null
+      ? `${scope}/${position}`
+      : `${scope}/${position.replace(/\.\d+$/, "")}.${key}`;
+
+  return `${base}:${type.hash ?? type.name}`;
+}
 
-    if (oldChild && !newChild) {
-      oldEl.removeChild(oldChild);
-      continue;
-    }
+/**
+ * @description
+ * The position of a node rendered by a route, including the params the route matched,
+ * so `/profile/1` and `/profile/2` render different instances of the same component,
+ * while the components outside of the route keep theirs.
+ */
+function routePosition(
+  position: string,
+  params: Record<string, string>,
+): string {
+  const values = Object.values(params);
+  if (!values.length) return position;
+
+  return `${position}@${values.map(encodeURIComponent).join(",")}`;
+}
 
-    if (oldChild.nodeType !== newChild.nodeType) {
-      oldEl.replaceChild(newChild.cloneNode(true), oldChild);
-      continue;
-    }
+/**
+ * @description
+ * Stores the instance id in a non-enumerable property of the component,
+ * so it is not serialized in the hydration state.
+ */
+function withInstanceId(component: Newstack, id: string): Newstack {
+  Object.defineProperty(component, "__id", {
+    value: id,
+    enumerable: false,
+    configurable: true,
+  });
 
-    if (
-      oldChild.nodeType === Node.TEXT_NODE &&
-      newChild.nodeType === Node.TEXT_NODE
-    ) {
-      if (oldChild.textContent !== newChild.textContent) {
-        oldChild.textContent = newChild.textContent;
-      }
-      continue;
-    }
+  return component;
+}
 
-    if (
-      oldChild.nodeType === Node.ELEMENT_NODE &&
-      newChild.nodeType === Node.ELEMENT_NODE &&
-      (oldChild as Element).tagName === (newChild as Element).tagName
-    ) {
-      patchElement(oldChild as Element, newChild as Element, vchild, update);
-    } else {
-      oldEl.replaceChild(newChild.cloneNode(true), oldChild);
-    }
-  }
+function instanceIdOf(component: Newstack): string {
+  return (component as unknown as { __id: string }).__id;
 }
 
-function matchRoute(
-  routePattern: string,
+/**
+ * @description
+ * Merges the JSX attributes of a component into a context, without changing the context itself.
+ */
+function withProps(
   context: NewstackClientContext,
-): boolean {
-  const routeSegments = routePattern?.split("/").filter(Boolean) ?? [];
-  const pathSegments = context.router.path?.split("/").filter(Boolean) ?? [];
+  props: Record<string, unknown>,
+): NewstackClientContext {
+  return new Proxy(context, {
+    get(target, prop) {
+      if (typeof prop === "string" && prop in props) return props[prop];
 
-  if (routeSegments.length !== pathSegments.length) return false;
+      return Reflect.get(target, prop);
+    },
+  });
+}
 
-  for (let i = 0; i < routeSegments.length; i++) {
-    const routeSegment = routeSegments[i];
-    const pathSegment = pathSegments[i];
+function routeOf(node: VNode): string | undefined {
+  if (!node || typeof node !== "object" || Array.isArray(node)) return;
 
-    if (routeSegment.startsWith(":")) {
-      continue; // param match
-    }
-    if (routeSegment !== pathSegment) return false;
-  }
+  const route = node.props?.route;
+  return typeof route === "string" ? route : undefined;
+}
 
-  routeSegments.forEach((segment, index) => {
-    if (!segment.startsWith(":")) return;
-    const paramName = segment.slice(1);
-    context.params[paramName] = pathSegments[index];
-  });
+function toArray(children: unknown): VNode[] {
+  if (children === undefined) return [];
 
-  return true;
+  return (Array.isArray(children) ? children : [children]) as VNode[];
 }
 
 function isComponentNode(node: VNode): boolean {
@@ -0,0 +1,179 @@
+/**
+ * @description
+ * A segment of a route pattern:
+ * - `about` matches the same path segment.
+ * - `:id` matches any path segment as the `id` param, `:id?` also matches no segment.
+ * - `*rest` matches the rest of the path (even if empty) as the `rest` param, `*` does the same without a param.
+ */
+type RouteSegment =
+  | { type: "static"; value: string }
+  | { type: "param"; name: string; optional: boolean }
+  | { type: "catchAll"; name?: string };
+
+/**
+ * @description
+ * Weight of each kind of segment when routes are ranked. A pattern ending where another one
+ * still has optional or catch-all segments is more specific.
+ */
+const SCORES = {
+  static: 8,
+  param: 6,
+  end: 5,
+  optional: 4,
+  catchAll: 2,
+};
+
+/**
+ * @description
+ * Splits a route pattern into its segments.
+ *
+ * @param pattern The route pattern, such as `/docs/:section/*rest`.
+ * @returns The route segments.
+ */
+export function parseRoute(pattern: string): RouteSegment[] {
+  return splitPath(pattern).map((segment): RouteSegment => {
+    if (segment.startsWith("*")) {
+      return { type: "catchAll", name: segment.slice(1) || undefined };
+    }
+
+    if (segment.startsWith(":")) {
+      const optional = segment.endsWith("?");
+      const name = segment.slice(1, optional ? -1 : undefined);
+
+      return { type: "param", name, optional };
+    }
+
+    return { type: "static", value: segment };
+  });
+}
+
+/**
+ * @description
+ * Matches a path against a route pattern. The query string and hash of the path are ignored.
+ *
+ * @param pattern The route pattern.
+ * @param path The path to match.
+ * @returns The route params, or null when the path does not match.
+ */
+export function matchRoute(
+  pattern: string,
+  path: string,
+): Record<string, string> | null {
+  const segments = parseRoute(pattern);
+  const parts = splitPath(pathnameOf(path)).map(decodeSegment);
+  const params: Record<string, string> = {};
+
+  const match = (i: number, j: number): boolean => {
+    if (i === segments.length) return j === parts.length;
+
+    const segment = segments[i];
+
+    if (segment.type === "catchAll") {
+      if (segment.name) params[segment.name] = parts.slice(j).join("/");
+      return true;
+    }
+
+    if (segment.type === "static") {
+      return parts[j] === segment.value && match(i + 1, j + 1);
+    }
+
+    if (j < parts.length && match(i + 1, j + 1)) {
+      params[segment.name] = parts[j];
+      return true;
+    }
+
+    return segment.optional && match(i + 1, j);
+  };
+
+  return match(0, 0) ? params : null;
+}
+
+/**
+ * @description
+ * Compares the specificity of two route patterns, for sorting from the most to the least specific.
+ * Static segments win over params, params over optional params and those over catch-alls.
+ *
+ * @param a The first route pattern.
+ * @param b The second route pattern.
+ * @returns A negative number when `a` is more specific, a positive one when `b` is.
+ */
+export function compareRoutes(a: string, b: string): number {
+  const scoresA = parseRoute(a).map(scoreOf);
+  const scoresB = parseRoute(b).map(scoreOf);
+  const length = Math.max(scoresA.length, scoresB.length);
+
+  for (let i = 0; i < length; i++) {
+    const difference = (scoresB[i] ?? SCORES.end) - (scoresA[i] ?? SCORES.end);
+    if (difference !== 0) return difference;
+  }
+
+  return 0;
+}
+
+/**
+ * @description
+ * Resolves a route pattern relative to the pattern of the route it is nested in.
+ * Absolute patterns (starting with `/`) and `*` are kept as they are, and the
+ * trailing catch-all of the parent is replaced by the nested pattern.
+ *
+ * @example
+ * ```ts
+ * joinRoutes("/docs/*", "guides/:slug"); // "/docs/guides/:slug"
+ * ```
+ *
+ * @param base The pattern of the parent route.
+ * @param route The nested route pattern.
+ * @returns The absolute route pattern.
+ */
+export function joinRoutes(base: string, route: string): string {
+  if (route.startsWith("/") || route === "*") return route;
+
+  const parent = splitPath(base).filter((segment) => !segment.startsWith("*"));
+
+  return `/${[...parent, ...splitPath(route)].join("/")}`;
+}
+
+/**
+ * @description
+ * Parses the query string of a path.
+ *
+ * @param path The path, such as `/search?q=newstack`.
+ * @returns The query params.
+ */
+export function queryParams(path: string): Record<string, string> {
+  const query = path.split("#")[0].split("?")[1];
+  if (!query) return {};
+
+  return Object.fromEntries(new URLSearchParams(query));
+}
+
+/**
+ * @description
+ * Returns a path without its query string and hash.
+ *
+ * @param path The path.
+ * @returns The path name.
+ */
+export function pathnameOf(path: string): string {
+  return path.split(/[?#]/)[0] || "/";
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function scoreOf(segment: RouteSegment): number {
+  if (segment.type === "param") {
+    return segment.optional ? SCORES.optional : SCORES.param;
+  }
+
+  return SCORES[segment.type];
+}
@@ -0,0 +1,349 @@
+/**
+ * @description
+ * Custom serialization of a registered class.
+ * Without it, the own enumerable properties are serialized and the instance
+ * is revived with the class prototype.
+ */
+export type NewstackSerializable<T = any> = {
+  /** Converts the instance into serializable data. */
+  serialize?(value: T): unknown;
+  /** Creates the instance back from the serialized data. */
+  deserialize?(data: any): T;
+};
+
+type Encoded = unknown;
+type Tagged = { $t: string; v?: any; n?: string };
+
+const TAG = "$t";
+
+const TYPED_ARRAYS = [
+  "Int8Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Int16Array",
+  "Uint16Array",
+  "Int32Array",
+  "Uint32Array",
+  "Float32Array",
+  "Float64Array",
+  "BigInt64Array",
+  "BigUint64Array",
+];
+
+const classes = new Map<
+  string,
+  NewstackSerializable & { Class: new (...args: any[]) => any }
+>();
+
+/**
+ * @description
+ * Registers a class so its instances keep their prototype when they go through
+ * server function payloads and the hydration state.
+ * It must be registered with the same name in code shared by the server and the client.
+ *
+ * @param name The unique name of the class in the payloads.
+ * @param Class The class to register.
+ * @param options Custom serialization of the class instances.
+ */
+export function registerClass<T>(
+  name: string,
+  Class: new (...args: any[]) => T,
+  options: NewstackSerializable<T> = {},
+) {
+  classes.set(name, { Class, ...options });
+}
+
+/**
+ * @description
+ * Serializes a value into a JSON string, keeping what plain JSON loses:
+ * `undefined`, `NaN`, `Infinity`, `-0`, `BigInt`, `Date`, `RegExp`, `Map`, `Set`,
+ * `Error`, typed arrays, `ArrayBuffer`, registered classes and repeated or cyclic references.
+ * Functions and symbols are dropped, as in `JSON.stringify`.
+ *
+ * @param value The value to serialize.
+ * @returns The JSON string.
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(encode(value, new Map()) ?? null);
+}
+
+/**
+ * @description
+ * Deserializes a JSON string created by `serialize`. Plain JSON is also accepted.
+ *
+ * @param text The JSON string.
+ * @returns The deserialized value.
+ */
+export function deserialize<T = unknown>(text: string): T {
+  return decode(JSON.parse(text), []) as T;
+}
+
+/**
+ * @description
+ * Encodes a value into JSON-compatible data.
+ * Every object gets an index in the order it is found, which repeated references point to.
+ */
+function encode(value: unknown, refs: Map<object, number>): Encoded {
+  switch (typeof value) {
+    case "undefined":
+      return { [TAG]: "undefined" };
+    case "bigint":
+      return { [TAG]: "bigint", v: value.toString() };
+    case "number":
+      if (Number.isFinite(value) && !Object.is(value, -0)) return value;
+      return {
+        [TAG]: "number",
+        v: String(Object.is(value, -0) ? "-0" : value),
+      };
+    case "string":
+    case "boolean":
+      return value;
+    case "function":
+    case "symbol":
+      return undefined;
+  }
+
+  if (value === null) return null;
+
+  const object = value as object;
+  if (refs.has(object)) return { [TAG]: "ref", v: refs.get(object) };
+  refs.set(object, refs.size);
+
+  if (Array.isArray(object)) {
+    return object.map((item) => encode(item, refs) ?? null);
+  }
+
+  if (object instanceof Date) {
+    const time = object.getTime();
+    return {
+      [TAG]: "Date",
+      v: Number.isNaN(time) ? null : object.toISOString(),
+    };
+  }
+
+  if (object instanceof RegExp) {
+    return { [TAG]: "RegExp", v: [object.source, object.flags] };
+  }
+
+  if (object instanceof Map) {
+    const entries = Array.from(object.entries());
+    return {
+      [TAG]: "Map",
+      v: entries.map(([key, val]) => [encode(key, refs), encode(val, refs)]),
+    };
+  }
+
+  if (object instanceof Set) {
+    return {
+      [TAG]: "Set",
+      v: Array.from(object.values(), (item) => encode(item, refs)),
+    };
+  }
+
+  if (object instanceof ArrayBuffer) {
+    return { [TAG]: "ArrayBuffer", v: Array.from(new Uint8Array(object)) };
+  }
+
+  if (ArrayBuffer.isView(object) && !(object instanceof DataView)) {
+    const items = Array.from(object as unknown as ArrayLike<number | bigint>);
+    return {
+      [TAG]: object.constructor.name,
+      v: items.map((item) => (typeof item === "bigint" ? String(item) : item)),
+    };
+  }
+
+  if (object instanceof Error) {
+    return {
+      [TAG]: "Error",
+      v: { name: object.name, message: object.message },
+    };
+  }
+
+  const registered = findClass(object);
+  if (registered) {
+    const [name, { serialize }] = registered;
+    const data = serialize
+      ? encode(serialize(object), refs)
+      : encodeEntries(object, refs);
+
+    return { [TAG]: "class", n: name, v: data };
+  }
+
+  const entries = encodeEntries(object, refs);
+  if (TAG in entries) return { [TAG]: "Object", v: entries };
+
+  return entries;
+}
+
+/**
+ * @description
+ * Encodes the own enumerable properties of an object, without giving it an index.
+ */
+function encodeEntries(
+  object: object,
+  refs: Map<object, number>,
+): Record<string, Encoded> {
+  const entries: Record<string, Encoded> = {};
+
+  for (const key of Object.keys(object)) {
+    const encoded = encode(object[key], refs);
+    if (encoded !== undefined) defineEntry(entries, key, encoded);
+  }
+
+  return entries;
+}
+
+/**
+ * @description
+ * Decodes data created by `encode`, indexing objects in the same order they were encoded.
+ */
+function decode(data: Encoded, slots: unknown[]): unknown {
+  if (data === null || typeof data !== "object") return data;
+
+  if (Array.isArray(data)) {
+    const array: unknown[] = [];
+    slots.push(array);
+
+    for (const item of data) array.push(decode(item, slots));
+    return array;
+  }
+
+  const tagged = data as Tagged;
+  if (typeof tagged[TAG] !== "string") {
+    return decodeEntries(data, {}, slots);
+  }
+
+  const { v } = tagged;
+
+  switch (tagged[TAG]) {
+    case "undefined":
+      return undefined;
+    case "bigint":
+      return (globalThis as any).BigInt(v);
+    case "number":
+      return Number(v);
+    case "ref":
+      return slots[v];
+    case "Date":
+      return push(slots, new Date(v ?? Number.NaN));
+    case "RegExp":
+      return push(slots, new RegExp(v[0], v[1]));
+    case "Map": {
+      const map = push(slots, new Map());
+      for (const [key, val] of v)
+        map.set(decode(key, slots), decode(val, slots));
+      return map;
+    }
+    case "Set": {
+      const set = push(slots, new Set());
+      for (const item of v) set.add(decode(item, slots));
+      return set;
+    }
+    case "ArrayBuffer":
+      return push(slots, new Uint8Array(v).buffer);
+    case "Error": {
+      const error = push(slots, new Error(v.message));
+      error.name = v.name;
+      return error;
+    }
+    case "Object":
+      return decodeEntries(v, {}, slots);
+    case "class":
+      return decodeClass(tagged, slots);
+  }
+
+  if (TYPED_ARRAYS.includes(tagged[TAG])) {
+    const TypedArray = globalThis[tagged[TAG]];
+    const isBigInt = tagged[TAG].startsWith("Big");
+
+    return push(
+      slots,
+      new TypedArray(
+        v.map((item) => (isBigInt ? (globalThis as any).BigInt(item) : item)),
+      ),
+    );
+  }
+
+  // Unknown tags are kept as plain objects
+  return decodeEntries(data, {}, slots);
+}
+
+/**
+ * @description
+ * Decodes the properties of an object into a target, giving the target an index.
+ */
+function decodeEntries<T extends object>(
+  data: object,
+  target: T,
+  slots: unknown[],
+): T {
+  slots.push(target);
+
+  for (const key of Object.keys(data)) {
+    defineEntry(target, key, decode(data[key], slots));
+  }
+
+  return target;
+}
+
+/**
+ * @description
+ * Revives an instance of a registered class. Unregistered classes become plain objects.
+ */
+function decodeClass(tagged: Tagged, slots: unknown[]): unknown {
+  const registered = classes.get(tagged.n);
+
+  if (!registered) {
+    return decodeEntries(tagged.v ?? {}, {}, slots);
+  }
+
+  if (registered.serialize || registered.deserialize) {
+    // The index is reserved before decoding the data, as in `encode`
+    const index = slots.push(undefined) - 1;
+    const data = decode(tagged.v, slots);
+
+    if (registered.deserialize) {
+      slots[index] = registered.deserialize(data);
+    } else {
+      const instance = Object.create(registered.Class.prototype);
+      for (const key of Object.keys(Object(data))) {
+        defineEntry(instance, key, data[key]);
+      }
+
+      slots[index] = instance;
+    }
+
+    return slots[index];
+  }
+
+  const instance = Object.create(registered.Class.prototype);
+  return decodeEntries(tagged.v ?? {}, instance, slots);
+}
+
+function findClass(object: object): [string, NewstackSerializable] | undefined {
+  const entries = Array.from(classes.entries());
+
+  return (
+    entries.find(([, { Class }]) => object.constructor === Class) ??
+    entries.find(([, { Class }]) => object instanceof Class)
+  );
+}
+
+/**
+ * @description
+ * Sets a property as an own data property, as `JSON.parse` does, so a `__proto__`
+ * key sent by a client is kept as data instead of setting the object prototype.
+ */
+function defineEntry(target: object, key: string, value: unknown) {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function push<T>(slots: unknown[], value: T): T {
+  slots.push(value);
+  return value;
+}
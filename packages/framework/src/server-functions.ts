@@ -0,0 +1,117 @@
+/* ---------- Framework ---------- */
+import { type NewstackErrorPayload, reviveError } from "./errors";
+import { deserialize, serialize } from "./serializer";
+
+/**
+ * @description
+ * How long a prefetched server function call is kept, in milliseconds.
+ */
+const PREFETCH_TTL = 30_000;
+
+/**
+ * @description
+ * Server function calls made while prefetching, by component hash, method and arguments.
+ * Each one is used by the next identical call, such as the same `prepare` running on navigation.
+ */
+const prefetched = new Map<
+  string,
+  { result: Promise<unknown>; expires: number }
+>();
+
+let prefetching = false;
+
+/**
+ * @description
+ * Calls a server function from the client. The builder replaces the body of
+ * server functions in the client bundle with a call to this function.
+ * Arguments and results go through the framework serializer, and failures are
+ * rethrown with the error class thrown by the server function.
+ *
+ * @param hash The hash of the component.
+ * @param method The name of the server function.
+ * @param args The arguments of the server function.
+ * @param keys The arguments destructured by the server function, the only ones sent.
+ * @returns The result of the server function.
+ */
+export function callServerFunction(
+  hash: string,
+  method: string,
+  args: Record<string, unknown> = {},
+  keys?: string[],
+): Promise<unknown> {
+  const body = serialize(payloadOf(args, keys));
+  const key = `${hash}/${method}:${body}`;
+  const cached = prefetched.get(key);
+
+  if (cached && cached.expires > Date.now()) {
+    if (!prefetching) prefetched.delete(key);
+    return cached.result;
+  }
+
+  const result = request(hash, method, body);
+
+  if (prefetching) {
+    prefetched.set(key, { result, expires: Date.now() + PREFETCH_TTL });
+    result.catch(() => prefetched.delete(key));
+  } else {
+    prefetched.delete(key);
+  }
+
+  return result;
+}
+
+/**
+ * @description
+ * Runs a function caching the server function calls it makes synchronously,
+ * which are the ones made before the first `await` of a `prepare`.
+ *
+ * @param run The function to run, such as the `prepare` of a route component.
+ * @returns The result of the function.
+ */
+export function prefetchServerFunctions<T>(run: () => T): T {
+  prefetching = true;
+
+  try {
+    return run();
+  } finally {
+    prefetching = false;
+  }
+}
+
+/**
+ * @description
+ * The arguments sent to the server, without the client dependencies.
+ */
+function payloadOf(args: Record<string, unknown>, keys?: string[]) {
+  if (!keys) {
+    const { deps, ...payload } = args;
+    return payload;
+  }
+
+  const payload: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (key in args && key !== "deps") payload[key] = args[key];
+  }
+
+  return payload;
+}
+
+async function request(
+  hash: string,
+  method: string,
+  body: string,
+): Promise<unknown> {
+  const response = await fetch(`/api/newstack/${hash}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+
+  const { result, error } = deserialize<{
+    result: unknown;
+    error?: NewstackErrorPayload;
+  }>(await response.text());
+  if (error) throw reviveError(error);
+
+  return result;
+}
@@ -1,11 +1,15 @@
 /* ---------- Internal ---------- */
 import { randomUUID } from "crypto";
-import { dirname, join, resolve } from "path";
+import { dirname, extname, join, resolve, sep } from "path";
 import { fileURLToPath } from "url";
-import { readFile } from "fs/promises";
+import { cp, mkdir, readFile, writeFile } from "fs/promises";
 
 /* ---------- External ---------- */
 import { serve } from "@hono/node-server";
+import { getConnInfo } from "@hono/node-server/conninfo";
+import type { Context } from "hono";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import type { RedirectStatusCode, StatusCode } from "hono/utils/http-status";
 import { Hono } from "hono/tiny";
 
 /* ---------- Framework ---------- */
@@ -14,30 +18,83 @@ import type {
   NewstackClientContext,
   NewstackServerContext,
 } from "./core";
+import type { NewstackErrorPayload } from "./errors";
+import type { NewstackResponse } from "./types/context";
+import { validateArgs } from "./validation";
 import { Renderer } from "./renderer";
 import { proxifyContext } from "./context";
+import { NewstackError, toErrorPayload } from "./errors";
+import { escapeHTML, serializeScriptJSON, stringify } from "./html";
+import { resolveFilePath, serveFile } from "./files";
+import { sendCompressedStream } from "./compression";
+import { findComponent } from "./registry";
+import { parseRoute } from "./router";
+import { deserialize, serialize } from "./serializer";
 
 /* ---------- Constants ---------- */
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-const files = new Map<PublicFile, string>();
 const hash = randomUUID();
 
+/**
+ * @description
+ * WebSocket URL of the dev server, set when the server is started by it.
+ */
+const HMR = process.env.NEWSTACK_HMR;
+
+/**
+ * @description
+ * Build manifest listing the components by hash and the chunks of each module, written by the builder.
+ */
+const MANIFEST = "newstack-manifest.json";
+
+/**
+ * @description
+ * Names of the chunks built next to the server, such as `client-About-DTI3FYEO.js`.
+ * Other files of the output directory, such as the server bundle, are never served.
+ */
+const CHUNK_NAME = /^client-[\w-]+\.js(\.map)?$/;
+
+/**
+ * @description
+ * Responses of the pages already sent, whose status, headers and cookies can no longer change.
+ */
+const sentResponses = new WeakSet<NewstackResponse>();
+
+/**
+ * @description
+ * Inline script moving a streamed section into its placeholder.
+ */
+const SWAP_SECTION = `function __newstackSwap(i) {
+  var chunk = document.querySelector('template[data-newstack-chunk="' + i + '"]');
+  document.querySelector('template[data-newstack-section="' + i + '"]').replaceWith(chunk.content);
+  chunk.remove();
+}`;
+
 const mimeTypes: Record<string, string> = {
-  ".js": "application/javascript",
-  ".css": "text/css",
-  ".html": "text/html",
-  ".json": "application/json",
-  ".txt": "text/plain",
+  ".js": "application/javascript; charset=utf-8",
+  ".mjs": "application/javascript; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".html": "text/html; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
   ".xml": "application/xml",
+  ".pdf": "application/pdf",
   ".wasm": "application/wasm",
   ".webmanifest": "application/manifest+json",
   ".ico": "image/x-icon",
   ".png": "image/png",
   ".jpg": "image/jpeg",
   ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
   ".svg": "image/svg+xml",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
   ".woff": "font/woff",
   ".woff2": "font/woff2",
   ".ttf": "font/ttf",
@@ -45,23 +102,6 @@ const mimeTypes: Record<string, string> = {
   ".eot": "application/vnd.ms-fontobject",
 };
 
-const context = proxifyContext({
-  environment: "server",
-  params: {},
-  page: {} as NewstackClientContext["page"],
-  router: {} as NewstackClientContext["router"],
-}) as NewstackServerContext & NewstackClientContext;
-
-const loaders = {
-  client: async () => {
-    const file = resolve(__dirname, "client.js");
-    const content = await readFile(file, "utf-8");
-    files.set("client", content);
-  },
-};
-
-loaders.client();
-
 /* ---------- Server ---------- */
 /**
  * @description
@@ -85,87 +125,283 @@ export class NewstackServer {
 
   /**
    * @description
-   * The renderer instance that handles rendering Newstack components to HTML.
+   * Dependencies shared with every request context (database clients, services, etc).
+   */
+  deps: Record<string, any> = {};
+
+  /**
+   * @description
+   * Whether the server runs in development, which sends error messages and
+   * stack traces of failed server functions to the client.
+   * Only enabled when `NODE_ENV` is `development`, as set by `newstack dev`.
+   */
+  development = process.env.NODE_ENV === "development";
+
+  /**
+   * @description
+   * The renderer instance finding the component classes and routes of the application once,
+   * shared by the request renderers and the prerender.
+   * It never renders a request, since every request gets its own renderer and component instances.
    */
   private renderer: Renderer;
 
+  /**
+   * @description
+   * The build manifest, read once from the output directory.
+   */
+  private manifest?: Promise<NewstackManifest>;
+
   constructor() {
     this.server = new Hono();
-    context.deps = {};
 
-    this.renderer = new Renderer(context as NewstackClientContext);
+    this.renderer = new Renderer(this.createContext("/"));
     this.setupRoutes();
   }
 
+  /**
+   * @description
+   * Creates a fresh context for a single request or server function call,
+   * so concurrent requests never share page, params or router state.
+   * When the Hono context is given, the request, headers, cookies, client IP
+   * and a response handle are added to it. Otherwise, as when prerendering,
+   * the response handle only records the status and the redirect.
+   *
+   * @param {string} path - The path being served.
+   * @param {Context} c - The Hono context of the request.
+   * @returns {NewstackServerContext & NewstackClientContext} - The request context.
+   */
+  private createContext(
+    path: string,
+    c?: Context,
+  ): NewstackServerContext & NewstackClientContext {
+    return proxifyContext({
+      environment: "server",
+      path,
+      params: {},
+      page: {} as NewstackClientContext["page"],
+      router: {
+        path,
+        event: "load",
+        previous: "",
+        navigating: false,
+        next: "",
+      } as NewstackClientContext["router"],
+      deps: this.deps,
+      ...(c ? requestContext(c) : { response: recordedResponse() }),
+    }) as NewstackServerContext & NewstackClientContext;
+  }
+
+  /**
+   * @description
+   * Creates a renderer with its own component instances for a single request.
+   * The component classes and routes are the ones found once, when the server starts.
+   *
+   * @param {NewstackClientContext} context - The request context.
+   * @returns {Renderer} - The request renderer.
+   */
+  private createRenderer(context: NewstackClientContext): Renderer {
+    const renderer = new Renderer(context);
+    const App = this.app.constructor as new () => Newstack;
+    renderer.setupComponentsOf(new App(), this.renderer);
+    renderer.resetParams();
+
+    return renderer;
+  }
+
   /**
    * @description
    * Prepares the components for rendering in the server-side.
+   * Every component is prepared once, right before it is first rendered. The ones whose
+   * `prepare` is still running become a pending section, so independent `prepare` calls
+   * run in parallel. Deferred sections are rendered as a placeholder until they are done,
+   * otherwise the component is rendered with its current state until the page is rendered
+   * again. Sections of components with a static `blocking` flag are never deferred.
+   *
+   * @param {Renderer} renderer - The request renderer.
+   * @param {boolean} defer - Whether pending sections are rendered as placeholders.
+   * @returns {Map<number, PendingSection>} - The pending sections, by placeholder index.
    */
-  private async prepare() {
-    for (const [hash, { component }] of this.renderer.components) {
-      if (!this.renderer.visibleHashes.has(hash)) continue;
+  private prepare(
+    renderer: Renderer,
+    defer: boolean,
+  ): Map<number, PendingSection> {
+    const sections = new Map<number, PendingSection>();
+    const prepared = new Set<string>();
+    let index = 0;
+
+    const pending = new Map<string, number>();
+
+    renderer.boundary = (id) => {
+      if (!prepared.has(id)) {
+        prepared.add(id);
+
+        const { component } = renderer.components.get(id);
+        const result = component.prepare?.(renderer.contextFor(id));
+
+        if (result instanceof Promise) {
+          const section = index++;
+          const ready = result
+            // The section is still rendered, with the state the component has
+            .catch((error) => console.error(error))
+            .then(() => {
+              pending.delete(id);
+              sections.get(section).done = true;
+              return section;
+            });
+
+          const { blocking = false } = component.constructor as typeof Newstack;
+
+          pending.set(id, section);
+          sections.set(section, { id, ready, blocking, done: false });
+        }
+      }
 
-      await component.prepare?.(context);
+      // Rendering again keeps the same placeholder while the section is pending
+      const section = pending.get(id);
+      if (!defer || section === undefined) return null;
+
+      return {
+        type: "template",
+        props: { "data-newstack-section": section },
+        children: [],
+      };
+    };
+
+    return sections;
+  }
+
+  /**
+   * @description
+   * Reads the build manifest once. Without a manifest, such as in a build
+   * without the client, nothing is preloaded and only the components of
+   * modules already loaded are found by hash.
+   * The manifest has no routes: they are nested in render outputs, so they are
+   * still found by walking the application once, when the server starts.
+   *
+   * @returns {Promise<NewstackManifest>} - The build manifest.
+   */
+  private readManifest(): Promise<NewstackManifest> {
+    if (!this.manifest) {
+      this.manifest = readFile(join(__dirname, MANIFEST), "utf8")
+        .then((content) => JSON.parse(content))
+        .catch(() => ({ components: {}, modules: {} }));
     }
+
+    return this.manifest;
+  }
+
+  /**
+   * @description
+   * Lists the chunks of the given lazy modules, to preload them along with the page.
+   *
+   * @param {Iterable<string>} modules - The modules of the rendered lazy components.
+   * @returns {Promise<string[]>} - The public URLs of the chunks.
+   */
+  private async chunksOf(modules: Iterable<string>): Promise<string[]> {
+    const manifest = await this.readManifest();
+    const chunks = Array.from(modules).flatMap(
+      (id) => manifest.modules[id] ?? [],
+    );
+
+    return Array.from(new Set(chunks));
   }
 
   /**
    * @description
    * Executes a server function based on the provided hash and method name.
    * It finds the component by its hash and calls the method by its name with
-   * the provided arguments.
+   * the provided arguments. Only the server functions listed by the builder can
+   * be executed, and the arguments are validated before the call.
+   * Thrown errors are converted into their public payload and status code.
    *
    * @param {string} hash - The hash of the component (Generated in the build process).
    * @param {string} method - The name of the method to execute (Component class method name).
    * @param {unknown} args - The arguments to pass to the method (Arguments passed in the server function).
+   * @param {Context} c - The Hono context of the request, exposed to the server function.
    *
    * @returns {Promise<ServerFunctionResponse>} - The result of the method execution and any error that occurred.
    */
   private async executeServerFunction(
     hash: string,
     method: string,
-    args: Record<string, unknown>,
+    args: unknown,
+    c: Context,
   ): Promise<ServerFunctionResponse> {
-    const component = this.renderer.findComponentByHash(hash);
-    if (!component) {
-      return { result: null, error: `Component with hash ${hash} not found` };
-    }
-
     try {
-      const result = await component.constructor[method]({
-        ...args,
+      const manifest = await this.readManifest();
+      const Component = await findComponent(
+        hash,
+        manifest.components[hash]?.module,
+      );
+      if (!Component) {
+        throw new NewstackError(`Component with hash ${hash} not found`, {
+          status: 404,
+          code: "NOT_FOUND",
+        });
+      }
+
+      const isServerFunction =
+        Component.serverFunctions?.includes(method) &&
+        Object.prototype.hasOwnProperty.call(Component, method) &&
+        typeof Component[method] === "function";
+
+      if (!isServerFunction) {
+        throw new NewstackError(`Server function ${method} not found`, {
+          status: 404,
+          code: "NOT_FOUND",
+        });
+      }
+
+      const context = this.createContext(c.req.path, c);
+      const validated = validateArgs(
+        args,
+        Component.schemas?.[method],
+        Object.keys(context),
+      );
+
+      const result = await Component[method]({
+        ...validated,
         ...context,
       });
 
       return { result, error: null };
     } catch (error) {
-      return {
-        result: null,
-        error: error instanceof Error ? error.message : "Unknown server error",
-      };
+      const payload = toErrorPayload(error, this.development);
+
+      // Unexpected errors are only visible in the server logs in production
+      if (payload.status >= 500) console.error(error);
+
+      return { result: null, error: payload, status: payload.status };
     }
   }
 
   /**
    * @description
    * Handles the request for static files.
-   * It reads the file from the public directory and returns its content.
-   * If the file is not found, it returns an empty string.
+   * Chunks built next to the server (`client-*`) are served from the output directory
+   * and cached forever, other files are served from the public directory.
+   * Names escaping those directories, or chunk names that are not plain file
+   * names, such as an encoded `client-x%2f..%2fserver.js`, are rejected.
    *
+   * @param {Context} c - The Hono context of the request.
    * @param {string} name - The name of the file to handle (e.g., "favicon.ico", "style.css").
-   * @returns {Promise<string>} - The content of the file as a string.
+   * @returns {Promise<Response | null>} - The file response, or null if the file is not found.
    */
-  private async handleFile(name: string): Promise<string> {
-    const dynamic = ["favico.ico", "style.css"].includes(name);
-    if (dynamic) {
-      return "";
-    }
+  private async handleFile(c: Context, name: string): Promise<Response | null> {
+    const isChunk = name.startsWith("client-");
+    if (isChunk && !CHUNK_NAME.test(name)) return null;
+
+    const root = isChunk ? __dirname : join(__dirname, "../public");
+
+    const filePath = resolveFilePath(root, name);
+    if (!filePath) return null;
 
-    const isPublic = !name.startsWith("client-") && !name.startsWith("server-");
+    const extension = extname(filePath).toLowerCase();
 
-    const filePath = join(__dirname, isPublic ? "../public/" : "", name);
-    const file = await readFile(filePath, "utf-8").catch(() => "");
-    return file;
+    return serveFile(c, filePath, {
+      contentType: mimeTypes[extension] || "application/octet-stream",
+      immutable: isChunk,
+    });
   }
 
   /**
@@ -178,21 +414,39 @@ export class NewstackServer {
     this.server
       .post("/api/newstack/:hash/:method", async (c) => {
         const { hash, method } = c.req.param();
-        const args = await c.req.json();
-
-        const response = await this.executeServerFunction(hash, method, args);
-
-        return c.json({
-          result: response.result,
-          error: response.error,
-        });
+        const args = await c.req
+          .text()
+          .then((text) => deserialize(text))
+          .catch(() => undefined);
+
+        const response = await this.executeServerFunction(
+          hash,
+          method,
+          args,
+          c,
+        );
+
+        if (response.status) c.status(response.status as StatusCode);
+        c.header("Content-Type", "application/json");
+
+        return c.body(
+          serialize({
+            result: response.result,
+            error: response.error,
+          }),
+        );
       })
-      .get("/client.js", (c) => {
-        c.header("Content-Type", "application/javascript");
-        c.header("Cache-Control", "public, max-age=87600, immutable");
+      .get("/client.js", async (c) => {
         c.header("X-Newstack-Fingerprint", hash);
 
-        return c.body(files.get("client"));
+        // The entry is requested with the server fingerprint, so it can be cached forever,
+        // except in development, where it is rebuilt without restarting the server
+        const response = await serveFile(c, join(__dirname, "client.js"), {
+          contentType: mimeTypes[".js"],
+          immutable: !HMR,
+        });
+
+        return response ?? c.notFound();
       });
   }
 
@@ -204,77 +458,154 @@ export class NewstackServer {
   private serveAppRoutes() {
     this.server.get("*", async (c) => {
       c.header("X-Newstack-Fingerprint", hash);
-      c.header("Content-Encoding", "application/gzip");
 
       const { path } = c.req;
       // Handle files
       if (path.includes(".")) {
-        const result = await this.handleFile(path.slice(1));
-        if (!result) return c.notFound();
+        const response = await this.handleFile(c, path.slice(1));
+        return response ?? c.notFound();
+      }
 
-        const end = path.split(".").pop() || "";
-        c.header("Content-Type", mimeTypes[`.${end}`] || "text/plain");
+      // The query string is part of the path, so it is parsed into the params
+      const { search } = new URL(c.req.url);
+      const context = this.createContext(path + search, c);
+      const renderer = this.createRenderer(context);
+      const chunks = await this.template(renderer);
 
-        return c.body(result);
-      }
+      // Components set the status or redirect from `prepare`, before the shell is sent,
+      // which only waits for the async `prepare` of `blocking` components
+      const { location, statusCode } = context.response;
+      if (location)
+        return c.redirect(location, statusCode as RedirectStatusCode);
 
-      context.path = path;
-      context.router.path = path;
-      const page = await this.template();
+      if (renderer.notFound && !statusCode) c.status(404);
 
-      return c.html(page);
+      sentResponses.add(context.response);
+      return sendCompressedStream(c, chunks, mimeTypes[".html"]);
     });
   }
 
   /**
    * @description
-   * Generates the HTML template for the initial page.
-   * It renders the application and prepares the components for server-side rendering.
+   * Generates the HTML template for the initial page as a stream.
+   * The shell, with the `<head>` and every section that is ready, is rendered once the
+   * blocking sections are done, so their components can set the status or redirect.
+   * Sections whose `prepare` is still running are streamed as soon as it resolves,
+   * in any order, and moved into their placeholder by an inline script.
+   * The hydration state is sent last, once every section is rendered.
+   * Without streaming, the whole page waits for every `prepare` instead.
    *
-   * @returns {Promise<string>} - The HTML template as a string.
+   * @param {Renderer} renderer - The request renderer.
+   * @param {boolean} stream - Whether sections are streamed as they are ready.
+   * @returns {Promise<AsyncIterable<string>>} - The HTML chunks.
    */
-  private async template(): Promise<string> {
-    this.renderer.visibleHashes.clear();
-    const element = this.app.render(context as NewstackClientContext);
-    this.renderer.html(element);
-    await this.prepare();
-    const page = this.renderer.html(element);
-
-    const registrySnapshot = JSON.stringify(
-      Object.fromEntries(
-        Array.from(this.renderer.components.entries())
-          .filter(([hash]) => this.renderer.visibleHashes.has(hash))
-          .map(([hash, { component }]) => [hash, { state: component }]),
-      ),
-    );
+  private async template(
+    renderer: Renderer,
+    stream = true,
+  ): Promise<AsyncIterable<string>> {
+    const { context } = renderer;
+    const { component: app } = renderer.components.get(renderer.entrypoint);
+
+    const sections = this.prepare(renderer, stream);
+    const render = () => {
+      renderer.visibleIds.clear();
+      renderer.lazyModules.clear();
+      const html = stringify(
+        renderer.resolve(app.render(context), renderer.entrypoint),
+      );
+
+      // Sections done before the render are part of the page already
+      for (const [section, { done }] of sections) {
+        if (done) sections.delete(section);
+      }
+
+      return html;
+    };
+
+    let page = render();
+
+    // Rendering again may find new components, which are prepared in the next round
+    // Lazy components are rendered once loaded too
+    while (true) {
+      const waiting = [
+        ...Array.from(sections.values())
+          .filter(({ blocking }) => blocking || !stream)
+          .map(({ ready }) => ready),
+        ...renderer.loading.values(),
+      ];
+      if (!waiting.length) break;
+
+      await Promise.all(waiting);
+      page = render();
+    }
+
+    const preloads = (await this.chunksOf(renderer.lazyModules))
+      .map((chunk) => `<link rel="modulepreload" href="${escapeHTML(chunk)}">`)
+      .join("");
 
-    return `
+    const { title, description, locale } = context.page;
+
+    const shell = `
       <!DOCTYPE html>
-      <html lang="${context.page.locale || "en"}">
+      <html lang="${escapeHTML(locale || "en")}">
         <head>
             <meta charset="UTF-8">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
 
-            <title>${context.page.title}</title>
-            <meta name="og:title" content="${context.page.title}">
+            <title>${escapeHTML(title)}</title>
+            <meta name="og:title" content="${escapeHTML(title)}">
 
-            <meta name="description" content="${context.page.description || ""}">
-            <meta name="og:description" content="${context.page.description || ""}">
+            <meta name="description" content="${escapeHTML(description)}">
+            <meta name="og:description" content="${escapeHTML(description)}">
 
             <style>
       	      body { font-family: Arial, sans-serif; }
             </style>
 
+            ${HMR ? `<script>window.__NEWSTACK_HMR__ = ${serializeScriptJSON(HMR)};</script>` : ""}
       	    <script type="module" src="/client.js?fingerprint=${hash}"></script>
-            <script id="__NEWSTACK_STATE__" type="application/json">${registrySnapshot}</script>
+            ${preloads}
+            ${sections.size ? `<script>${SWAP_SECTION}</script>` : ""}
         </head>
 
         <body>
           <div id="app">
               ${page}
-          </div>
+          </div>`;
+
+    return (async function* () {
+      yield shell;
+
+      while (sections.size) {
+        const section = await Promise.race(
+          Array.from(sections.values(), ({ ready }) => ready),
+        );
+
+        const { id } = sections.get(section);
+        sections.delete(section);
+
+        // Nested components with a pending `prepare` become new sections
+        const html = stringify(renderer.resolveComponent(id));
+
+        yield `
+          <template data-newstack-chunk="${section}">${html}</template>
+          <script>__newstackSwap(${section})</script>`;
+      }
+
+      const registrySnapshot = serializeScriptJSON(
+        Object.fromEntries(
+          Array.from(renderer.components.entries())
+            .filter(([id]) => renderer.visibleIds.has(id))
+            .map(([id, { component }]) => [id, { state: component }]),
+        ),
+      );
+
+      yield `
+          ${pageUpdate(context.page, { title, description, locale })}
+          <script id="__NEWSTACK_STATE__" type="application/json">${registrySnapshot}</script>
         </body>
       </html>`;
+    })();
   }
 
   /**
@@ -283,22 +614,328 @@ export class NewstackServer {
    *
    * @returns {Hono}
    */
-  start(app: Newstack, opts: { deps: Record<string, any> }): Hono {
+  start(
+    app: Newstack,
+    opts: { deps?: Record<string, any>; development?: boolean } = {},
+  ): Hono {
     this.app = app;
-    context.deps = opts.deps;
-    this.serveAppRoutes();
+    this.deps = opts.deps ?? {};
+    this.development = opts.development ?? this.development;
     this.renderer.setupAllComponents(this.app);
+    this.serveAppRoutes();
 
     serve(this.server, ({ port }) => {
       console.log(`Newstack server is running on http://localhost:${port} 🚀`);
+
+      // Lets the dev server know the restarted server is listening
+      process.send?.("newstack:ready");
     });
 
     return this.server;
   }
+
+  /**
+   * @description
+   * Prerenders the application routes to static HTML files, with their hydration state,
+   * so they can be hosted on a plain file server along with the client bundle.
+   * Every `route` pattern of the application tree is rendered, and patterns with
+   * dynamic segments are rendered once for each of their given params.
+   * When paths are given, only those are rendered again (incremental regeneration).
+   * Pages that redirect or respond with another status than 200 are skipped with a
+   * warning, as are paths outside of the output directory.
+   *
+   * @example
+   * ```ts
+   * await new NewstackServer().prerender(app, {
+   *   params: { "/profile/:id": [{ id: "1" }, { id: "2" }] },
+   * });
+   * ```
+   *
+   * @returns {Promise<string[]>} - The written files.
+   */
+  async prerender(
+    app: Newstack,
+    opts: PrerenderOptions = {},
+  ): Promise<string[]> {
+    this.app = app;
+    this.deps = opts.deps ?? {};
+    this.renderer.setupAllComponents(this.app);
+
+    // Routes nested in lazy components are only found once they are loaded
+    while (this.renderer.loading.size) {
+      await Promise.all(this.renderer.loading.values());
+    }
+
+    const outdir = resolve(opts.outdir ?? __dirname);
+    const paths =
+      opts.paths ??
+      Array.from(this.renderer.routes).flatMap((route) =>
+        expandRoute(route, opts.params?.[route]),
+      );
+
+    // A full prerender also copies the public files next to the pages
+    if (!opts.paths) {
+      await cp(join(__dirname, "../public"), outdir, { recursive: true }).catch(
+        () => undefined,
+      );
+    }
+
+    const written: string[] = [];
+
+    for (const path of paths) {
+      const file = resolve(join(outdir, path, "index.html"));
+      if (!file.startsWith(outdir + sep)) continue;
+
+      const context = this.createContext(path);
+      const renderer = this.createRenderer(context);
+      const chunks = await this.template(renderer, false);
+
+      let html = "";
+      for await (const chunk of chunks) html += chunk;
+
+      // Static files are served with a 200 status, so other responses are not written
+      const { location, statusCode = 200 } = context.response;
+      if (location || statusCode !== 200 || renderer.notFound) {
+        const response = location
+          ? `redirects to ${location}`
+          : `responds with ${statusCode === 200 ? 404 : statusCode}`;
+
+        console.warn(`Skipped prerendering ${path}, which ${response}`);
+        continue;
+      }
+
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, html);
+
+      written.push(file);
+    }
+
+    return written;
+  }
+}
+
+/* ---------- Helpers ---------- */
+/**
+ * @description
+ * Builds the paths of a route pattern, one for each set of params of its dynamic segments.
+ * Patterns with dynamic segments but no params cannot be prerendered and are skipped.
+ *
+ * @param {string} route - The route pattern, such as `/profile/:id`.
+ * @param {Record<string, string>[]} params - The params of the dynamic segments.
+ * @returns {string[]} - The paths.
+ */
+function expandRoute(
+  route: string,
+  params: Record<string, string>[] = [],
+): string[] {
+  const segments = parseRoute(route);
+  const dynamic = segments.some((segment) => segment.type !== "static");
+  if (!dynamic) return [route];
+
+  return params.map((values) => {
+    const path = segments.flatMap((segment) => {
+      if (segment.type === "static") return [segment.value];
+
+      const value = segment.name ? values[segment.name] : undefined;
+      if (value === undefined) return [];
+
+      // Catch-all values can span many segments
+      return value.split("/").map(encodeURIComponent);
+    });
+
+    return `/${path.join("/")}`;
+  });
+}
+
+/**
+ * @description
+ * Inline script updating the `<head>` when streamed sections changed the page
+ * after the shell was sent.
+ *
+ * @param {NewstackClientContext["page"]} page - The page after every section is rendered.
+ * @param {Partial<NewstackClientContext["page"]>} sent - The page sent in the shell.
+ * @returns {string} - The script, or an empty string when nothing changed.
+ */
+function pageUpdate(
+  page: NewstackClientContext["page"],
+  sent: Partial<NewstackClientContext["page"]>,
+): string {
+  const updates: string[] = [];
+  const json = (value: unknown) => serializeScriptJSON(String(value ?? ""));
+
+  if (page.title !== sent.title) {
+    updates.push(
+      `document.title = ${json(page.title)};`,
+      `document.querySelector('meta[name="og:title"]').content = ${json(page.title)};`,
+    );
+  }
+
+  if (page.description !== sent.description) {
+    updates.push(
+      `document.querySelectorAll('meta[name$="description"]').forEach(function (meta) { meta.content = ${json(page.description)}; });`,
+    );
+  }
+
+  if (page.locale !== sent.locale) {
+    updates.push(
+      `document.documentElement.lang = ${json(page.locale || "en")};`,
+    );
+  }
+
+  return updates.length ? `<script>${updates.join("\n")}</script>` : "";
+}
+
+/**
+ * @description
+ * Builds the request related part of a server context from the Hono context.
+ *
+ * @param {Context} c - The Hono context of the request.
+ * @returns {Partial<NewstackServerContext>} - The request, headers, cookies, client IP and response handle.
+ */
+function requestContext(c: Context): Partial<NewstackServerContext> {
+  let statusCode: number | undefined;
+  let location: string | undefined;
+
+  // Once the page is sent, changes to the response are lost
+  const unsent = (change: string) => {
+    if (!sentResponses.has(response)) return true;
+
+    console.warn(
+      `The ${change} set while serving ${c.req.path} was ignored, since the page was already sent. Components changing the response after an \`await\` in \`prepare\` must set \`static blocking = true\`.`,
+    );
+    return false;
+  };
+
+  const response: NewstackResponse = {
+    get statusCode() {
+      return statusCode;
+    },
+    get location() {
+      return location;
+    },
+    status: (code) => {
+      if (!unsent("status")) return;
+
+      statusCode = code;
+      c.status(code as StatusCode);
+    },
+    redirect: (to, code) => {
+      if (!unsent("redirect")) return;
+
+      location = to;
+      statusCode = code >= 300 && code < 400 ? code : 302;
+    },
+    header: (name, value) => unsent("header") && c.header(name, value),
+    cookie: (name, value, options) =>
+      unsent("cookie") && setCookie(c, name, value, options),
+    deleteCookie: (name, options) => {
+      if (unsent("cookie")) deleteCookie(c, name, options);
+    },
+  };
+
+  return {
+    request: c.req,
+    headers: c.req.header(),
+    cookies: getCookie(c),
+    ip: remoteAddress(c),
+    response,
+  };
+}
+
+/**
+ * @description
+ * Response handle of a context without a request, such as a prerendered page,
+ * recording the status and the redirect while ignoring headers and cookies.
+ */
+function recordedResponse(): NewstackResponse {
+  let statusCode: number | undefined;
+  let location: string | undefined;
+
+  return {
+    get statusCode() {
+      return statusCode;
+    },
+    get location() {
+      return location;
+    },
+    status: (code) => {
+      statusCode = code;
+    },
+    redirect: (to, code) => {
+      location = to;
+      statusCode = code >= 300 && code < 400 ? code : 302;
+    },
+    header: () => undefined,
+    cookie: () => undefined,
+    deleteCookie: () => undefined,
+  };
+}
+
+/**
+ * @description
+ * Returns the remote address of the connection, if the runtime exposes it.
+ */
+function remoteAddress(c: Context): string | undefined {
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
 }
 
 /* ---------- Types ---------- */
-type PublicFile = "client";
+export type PrerenderOptions = {
+  /**
+   * @description
+   * The params of the routes with dynamic segments, by route pattern.
+   * For instance `{ "/profile/:id": [{ id: "1" }, { id: "2" }] }`.
+   */
+  params?: Record<string, Record<string, string>[]>;
+
+  /**
+   * @description
+   * The paths to render again, instead of every route of the application.
+   */
+  paths?: string[];
+
+  /**
+   * @description
+   * The directory the pages are written to, the server bundle directory by default.
+   */
+  outdir?: string;
+
+  /**
+   * @description
+   * Dependencies shared with every page context (database clients, services, etc).
+   */
+  deps?: Record<string, any>;
+};
+
+type PendingSection = {
+  /**
+   * @description
+   * The instance id of the component rendered in the section.
+   */
+  id: string;
+
+  /**
+   * @description
+   * Resolves with the placeholder index once the component `prepare` is done.
+   */
+  ready: Promise<number>;
+
+  /**
+   * @description
+   * Whether the shell waits for the section, set by the static `blocking` flag of the component.
+   */
+  blocking: boolean;
+
+  /**
+   * @description
+   * Whether the component `prepare` is done.
+   */
+  done: boolean;
+};
 
 type ServerFunctionResponse = {
   /**
@@ -311,8 +948,41 @@ type ServerFunctionResponse = {
 
   /**
    * @description
-   * An error message if the server function execution failed.
+   * The public payload of the error if the server function execution failed.
    * It can be `null` if there was no error.
    */
-  error?: string | null;
+  error?: NewstackErrorPayload | null;
+
+  /**
+   * @description
+   * The HTTP status code of the response, 200 when not set.
+   */
+  status?: number;
+};
+
+/**
+ * @description
+ * Build manifest written by the builder next to the client bundle.
+ */
+type NewstackManifest = {
+  /**
+   * @description
+   * The components of the application by hash.
+   */
+  components: Record<
+    string,
+    {
+      file: string;
+      class: string;
+      module: string;
+      serverFunctions: string[];
+      chunks: string[];
+    }
+  >;
+
+  /**
+   * @description
+   * The chunks of each module, along with the chunks they statically import, by module id.
+   */
+  modules: Record<string, string[]>;
 };
@@ -1,3 +1,5 @@
+import type { HonoRequest } from "hono";
+
 export type IconSize = 72 | 96 | 128 | 144 | 152 | 192 | 384 | 512;
 
 export interface NewstackPage {
@@ -16,11 +18,40 @@ export interface NewstackProject {
 }
 
 export interface NewstackRouter {
+  /**
+   * Absolute URL of the current path
+   */
   url: string;
+
+  /**
+   * Current path, with its query string and hash. Setting it navigates to the new path
+   */
   path: string;
+
+  /**
+   * Origin of the application
+   */
   base: string;
+
+  /**
+   * How the current path was navigated to: `load`, `push`, `replace` or `pop`
+   */
   event: string;
+
+  /**
+   * Path navigated from, empty on the first page
+   */
   previous: string;
+
+  /**
+   * Whether a navigation is in progress, from its `beforeNavigate` guards until it is rendered
+   */
+  navigating: boolean;
+
+  /**
+   * Path being navigated to while `navigating`, empty otherwise
+   */
+  next: string;
 }
 
 export interface NewstackEnvironment {
@@ -38,6 +69,60 @@ export interface NewstackDependencies extends Record<string, any> {}
 // biome-ignore lint/suspicious/noEmptyInterface:
 export interface NewstackWorker {}
 
+export interface NewstackCookieOptions {
+  domain?: string;
+  expires?: Date;
+  httpOnly?: boolean;
+  maxAge?: number;
+  path?: string;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+/**
+ * Handle to change the HTTP response of the request being served.
+ */
+export interface NewstackResponse {
+  /**
+   * The status code set for the response, if any.
+   */
+  readonly statusCode?: number;
+
+  /**
+   * The location the response redirects to, if any.
+   */
+  readonly location?: string;
+
+  /**
+   * Sets the response status code. Route components can set it from `prepare`,
+   * such as 404, 410 or 500, before the page is sent. After an `await`, the
+   * component must set `static blocking = true`, or the status is ignored.
+   */
+  status(code: number): void;
+
+  /**
+   * Redirects to another path, with a 302 status unless a 3xx status is given.
+   * Setting `router.path` in the server does the same. After an `await` in
+   * `prepare`, the component must set `static blocking = true` too.
+   */
+  redirect(location: string, status?: number): void;
+
+  /**
+   * Sets a response header.
+   */
+  header(name: string, value: string): void;
+
+  /**
+   * Sets a cookie in the response.
+   */
+  cookie(name: string, value: string, options?: NewstackCookieOptions): void;
+
+  /**
+   * Deletes a cookie in the response.
+   */
+  deleteCookie(name: string, options?: NewstackCookieOptions): void;
+}
+
 /**
  * Collection of instances of Newstack classes that can be used to store
  * and manage state or services across the application.
@@ -77,24 +162,24 @@ export type NewstackClientContext<T = unknown> = NewstackCommonContext & {
   router: NewstackRouter;
 
   /**
-   * Query parameters from the URL
+   * Route and query parameters from the URL, reset on every navigation
    */
   params: NewstackParams;
 
   worker?: NewstackWorker;
   // instances?: NewstackInstances;
   /**
-   * Bind object
+   * Bind object, set when the component is rendered with `bind={this.property}`
    */
-  bind?: { property: string | number; object: any }[];
+  bind?: { property: string | number; object: any };
 
   /**
-   * Bind value
+   * Bind value, the current value of the bound property
    */
   value?: any;
 
   /**
-   * Ref object
+   * Ref object, set when the component is rendered with `ref={this.property}`
    */
   ref?: T extends { ref: any }
     ? T["ref"]
@@ -104,7 +189,7 @@ export type NewstackClientContext<T = unknown> = NewstackCommonContext & {
       };
 
   /**
-   * Ref reference
+   * Root DOM element of the component, available in the client after it is rendered
    */
   element?: Element;
 } & T;
@@ -119,6 +204,31 @@ export type NewstackServerContext<T = unknown> = NewstackCommonContext & {
    * Map of dependencies that can be used in the application.
    */
   deps: NewstackDependencies;
+
+  /**
+   * The HTTP request being served.
+   */
+  request?: HonoRequest;
+
+  /**
+   * Request headers, with lowercase names.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Request cookies.
+   */
+  cookies?: Record<string, string>;
+
+  /**
+   * Remote address of the client that sent the request.
+   */
+  ip?: string;
+
+  /**
+   * Handle to set the response status, headers and cookies.
+   */
+  response?: NewstackResponse;
 } & T;
 
 export abstract class NewstackComponent<T> {
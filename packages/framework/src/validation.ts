@@ -0,0 +1,61 @@
+import { NewstackValidationError } from "./errors";
+
+/**
+ * @description
+ * Schema used to validate the arguments of a server function.
+ * It can be any object with a `parse` method that throws on invalid input
+ * (such as a zod schema), or a function returning the parsed arguments.
+ */
+export type NewstackSchema<T = Record<string, unknown>> =
+  | { parse(value: unknown): T }
+  | ((value: unknown) => T);
+
+/**
+ * @description
+ * Validates the arguments sent by the client to a server function.
+ * Arguments must be a plain object that does not set the keys of the server
+ * context, so they can never override it, and the schema, when given, parses them.
+ *
+ * @param args The arguments sent by the client.
+ * @param schema The optional schema of the server function.
+ * @param reserved The keys of the server context merged into the arguments.
+ * @returns The validated arguments.
+ * @throws {NewstackValidationError} When the arguments are invalid.
+ */
+export function validateArgs(
+  args: unknown,
+  schema?: NewstackSchema,
+  reserved: string[] = [],
+): Record<string, unknown> {
+  if (args === null || typeof args !== "object" || Array.isArray(args)) {
+    throw new NewstackValidationError("Arguments must be an object");
+  }
+
+  const safe = args as Record<string, unknown>;
+  const overriding = Object.keys(safe).filter(
+    (key) => key === "__proto__" || reserved.includes(key),
+  );
+
+  if (overriding.length) {
+    throw new NewstackValidationError(
+      `Arguments cannot set the server context keys: ${overriding.join(", ")}`,
+    );
+  }
+
+  if (!schema) return safe;
+
+  try {
+    const parsed =
+      typeof schema === "function" ? schema(safe) : schema.parse(safe);
+
+    return (parsed ?? safe) as Record<string, unknown>;
+  } catch (error) {
+    if (error instanceof NewstackValidationError) throw error;
+
+    const issues = (error as { issues?: unknown[] })?.issues ?? [];
+    const message =
+      error instanceof Error ? error.message : "Invalid arguments";
+
+    throw new NewstackValidationError(message, issues);
+  }
+}
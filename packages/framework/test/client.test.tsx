@@ -0,0 +1,94 @@
+// @vitest-environment happy-dom
+import { h } from "@newstack/jsx";
+import { describe, expect, it } from "vitest";
+import Newstack, { NewstackClient } from "../src";
+
+const wait = () => new Promise((done) => setTimeout(done, 10));
+
+const log: string[] = [];
+
+class A extends Newstack {
+  static hash = "a";
+
+  prepare() {
+    log.push("A.prepare");
+  }
+
+  hydrate() {
+    log.push("A.hydrate");
+  }
+
+  destroy() {
+    log.push("A.destroy");
+  }
+
+  render() {
+    return <p>A</p>;
+  }
+}
+
+class B extends Newstack {
+  static hash = "b";
+
+  prepare() {
+    log.push("B.prepare");
+  }
+
+  hydrate() {
+    log.push("B.hydrate");
+  }
+
+  destroy() {
+    log.push("B.destroy");
+  }
+
+  render() {
+    return <p>B</p>;
+  }
+}
+
+class Switch extends Newstack {
+  static hash = "switch";
+
+  showA = true;
+
+  toggle() {
+    this.showA = !this.showA;
+  }
+
+  render() {
+    return (
+      <main>
+        <button type="button" onclick={() => this.toggle()}>
+          Switch
+        </button>
+        {this.showA ? <A /> : <B />}
+      </main>
+    );
+  }
+}
+
+class Application extends Newstack {
+  static hash = "application";
+
+  render() {
+    return <Switch />;
+  }
+}
+
+describe("NewstackClient", () => {
+  it("destroys and starts the components switched at the same position", async () => {
+    document.body.innerHTML = '<div id="app"></div>';
+    await new NewstackClient().start(new Application());
+    await wait();
+
+    expect(log).toEqual(["A.prepare", "A.hydrate"]);
+    log.length = 0;
+
+    document.querySelector("button").click();
+    await wait();
+
+    expect(document.querySelector("p").textContent).toBe("B");
+    expect(log).toEqual(["A.destroy", "B.prepare", "B.hydrate"]);
+  });
+});
@@ -0,0 +1,139 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from "vitest";
+import { type RenderedNode, createNode, patchChildren } from "../src/dom";
+
+const wrap = (handler: (e: Event) => unknown) => handler;
+
+const text = (value: string): RenderedNode => ({
+  type: "#text",
+  text: value,
+  props: {},
+  children: [],
+});
+
+const item = (key: string, props = {}): RenderedNode => ({
+  type: "li",
+  key,
+  props,
+  children: [text(key)],
+});
+
+const input = (key: string): RenderedNode => ({
+  type: "input",
+  key,
+  props: { type: "text" },
+  children: [],
+});
+
+/**
+ * @description
+ * Renders children into a new list, returning a function patching them.
+ */
+function mount(children: RenderedNode[]) {
+  const parent = document.createElement("ul");
+  document.body.replaceChildren(parent);
+
+  for (const child of children) parent.appendChild(createNode(child, wrap));
+
+  let current = children;
+  const patch = (next: RenderedNode[]) => {
+    patchChildren(parent, current, next, wrap);
+    current = next;
+  };
+
+  return { parent, patch };
+}
+
+const keysOf = (parent: Element) =>
+  Array.from(parent.children).map((child) => child.textContent);
+
+describe("patchChildren", () => {
+  it("reorders keyed children, moving only the ones out of place", () => {
+    const { parent, patch } = mount(["a", "b", "c", "d"].map((k) => item(k)));
+    const [a, b, c, d] = Array.from(parent.children);
+    const insertBefore = vi.spyOn(parent, "insertBefore");
+
+    patch(["d", "a", "b", "c"].map((k) => item(k)));
+
+    expect(keysOf(parent)).toEqual(["d", "a", "b", "c"]);
+    expect(Array.from(parent.children)).toEqual([d, a, b, c]);
+    expect(insertBefore).toHaveBeenCalledTimes(1);
+  });
+
+  it("reverses keyed children, keeping their elements", () => {
+    const { parent, patch } = mount(["a", "b", "c"].map((k) => item(k)));
+    const [a, b, c] = Array.from(parent.children);
+
+    patch(["c", "b", "a"].map((k) => item(k)));
+
+    expect(Array.from(parent.children)).toEqual([c, b, a]);
+  });
+
+  it("inserts a child without creating its siblings again", () => {
+    const { parent, patch } = mount(["a", "c"].map((k) => item(k)));
+    const [a, c] = Array.from(parent.children);
+    const insertBefore = vi.spyOn(parent, "insertBefore");
+
+    patch(["a", "b", "c"].map((k) => item(k)));
+
+    expect(keysOf(parent)).toEqual(["a", "b", "c"]);
+    expect(parent.children[0]).toBe(a);
+    expect(parent.children[2]).toBe(c);
+    expect(insertBefore).toHaveBeenCalledTimes(1);
+  });
+
+  it("removes the children without a match", () => {
+    const { parent, patch } = mount(["a", "b", "c"].map((k) => item(k)));
+    const [a, , c] = Array.from(parent.children);
+
+    patch(["a", "c"].map((k) => item(k)));
+
+    expect(Array.from(parent.children)).toEqual([a, c]);
+  });
+
+  it("replaces a keyed child whose type changed", () => {
+    const { parent, patch } = mount([item("a"), item("b")]);
+    const [a] = Array.from(parent.children);
+
+    patch([item("a"), input("b")]);
+
+    expect(parent.children[0]).toBe(a);
+    expect(parent.children[1].tagName).toBe("INPUT");
+  });
+
+  it("preserves the focus, value and selection of moved inputs", () => {
+    const { parent, patch } = mount([input("first"), input("second")]);
+    const second = parent.children[1] as HTMLInputElement;
+
+    second.focus();
+    second.value = "typed";
+    second.setSelectionRange(1, 3);
+
+    patch([item("new"), input("second"), input("first")]);
+
+    expect(parent.children[1]).toBe(second);
+    expect(document.activeElement).toBe(second);
+    expect(second.value).toBe("typed");
+    expect([second.selectionStart, second.selectionEnd]).toEqual([1, 3]);
+  });
+
+  it("keeps the event handlers on their elements when text nodes shift", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const button = (onclick: () => void, key?: string): RenderedNode => ({
+      type: "button",
+      key,
+      props: { onclick },
+      children: [text("click")],
+    });
+
+    const { parent, patch } = mount([text("label"), button(first, "b")]);
+
+    patch([button(second, "b")]);
+    (parent.querySelector("button") as HTMLButtonElement).click();
+
+    expect(parent.childNodes).toHaveLength(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Hono } from "hono/tiny";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { serveFile } from "../src/files";
+
+let dir: string;
+const app = new Hono();
+
+app.get("/file.txt", async (c) => {
+  const response = await serveFile(c, join(dir, "file.txt"), {
+    contentType: "text/plain",
+  });
+
+  return response ?? c.notFound();
+});
+
+const request = (headers: Record<string, string> = {}) =>
+  app.request("/file.txt", { headers });
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "newstack-"));
+  await writeFile(join(dir, "file.txt"), "newstack ".repeat(500));
+});
+
+afterAll(() => rm(dir, { recursive: true }));
+
+describe("serveFile", () => {
+  it("gives each encoding its own strong ETag", async () => {
+    const identity = await request();
+    const gzip = await request({ "Accept-Encoding": "gzip" });
+
+    expect(gzip.headers.get("Content-Encoding")).toBe("gzip");
+    expect(identity.headers.get("ETag")).toMatch(/^"/);
+    expect(gzip.headers.get("ETag")).toMatch(/^".*-gzip"$/);
+    expect(gzip.headers.get("ETag")).not.toBe(identity.headers.get("ETag"));
+  });
+
+  it("keeps the Vary header in 304 responses", async () => {
+    const first = await request({ "Accept-Encoding": "gzip" });
+    const etag = first.headers.get("ETag");
+
+    const cached = await request({
+      "Accept-Encoding": "gzip",
+      "If-None-Match": `W/${etag}`,
+    });
+
+    expect(cached.status).toBe(304);
+    expect(cached.headers.get("Vary")).toBe("Accept-Encoding");
+
+    // The tag of another encoding does not match
+    const identity = await request({ "If-None-Match": etag });
+    expect(identity.status).toBe(200);
+  });
+
+  it("only serves ranges for a strong If-Range validator", async () => {
+    const { headers } = await request();
+    const etag = headers.get("ETag");
+
+    const strong = await request({ Range: "bytes=0-7", "If-Range": etag });
+    expect(strong.status).toBe(206);
+    expect(await strong.text()).toBe("newstack");
+
+    const weak = await request({ Range: "bytes=0-7", "If-Range": `W/${etag}` });
+    expect(weak.status).toBe(200);
+    expect(weak.headers.get("Content-Range")).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from "vitest";
+import { setRef, updateRefs } from "../src/ref";
+
+describe("setRef", () => {
+  it("assigns the element to the property of object refs", () => {
+    const component = { element: null as Element | null };
+    const element = document.createElement("div");
+
+    setRef({ object: component, property: "element" }, element);
+    expect(component.element).toBe(element);
+
+    setRef({ object: component, property: "element" }, null, element);
+    expect(component.element).toBeNull();
+  });
+
+  it("calls the method named by `ref={this.method}` instead of replacing it", () => {
+    const calls: (Element | null)[] = [];
+    const component = {
+      setElement(element: Element | null) {
+        expect(this).toBe(component);
+        calls.push(element);
+      },
+    };
+    const { setElement } = component;
+    const ref = { object: component, property: "setElement" };
+    const element = document.createElement("div");
+
+    updateRefs([], [[ref, element]]);
+    updateRefs([[ref, element]], [[ref, element]]);
+    updateRefs([[ref, element]], []);
+
+    expect(component.setElement).toBe(setElement);
+    expect(calls).toEqual([element, null]);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { deserialize, registerClass, serialize } from "../src/serializer";
+
+describe("deserialize", () => {
+  it("keeps a `__proto__` key as data instead of setting the prototype", () => {
+    const args = deserialize<{ user: { role?: string } }>(
+      '{"user":{"__proto__":{"role":"admin"}}}',
+    );
+
+    expect(args.user.role).toBeUndefined();
+    expect(Object.getPrototypeOf(args.user)).toBe(Object.prototype);
+    expect(Object.keys(args.user)).toEqual(["__proto__"]);
+  });
+
+  it("keeps a `__proto__` key of registered classes as data", () => {
+    class Point {
+      x = 0;
+    }
+    registerClass("Point", Point, { serialize: (point) => ({ x: point.x }) });
+
+    const point = deserialize<Point & { role?: string }>(
+      serialize(new Point()).replace(
+        '"x":0',
+        '"x":0,"__proto__":{"role":"admin"}',
+      ),
+    );
+
+    expect(point).toBeInstanceOf(Point);
+    expect(point.role).toBeUndefined();
+  });
+});
@@ -0,0 +1,190 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { h } from "@newstack/jsx";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import Newstack, {
+  type NewstackClientContext,
+  type NewstackServerContext,
+} from "../src";
+import { NewstackServer } from "../src/server";
+
+// The application is served through `server.request`, without listening on a port
+vi.mock("@hono/node-server", () => ({ serve: vi.fn() }));
+
+const wait = (ms: number) => new Promise((done) => setTimeout(done, ms));
+
+class Profile extends Newstack {
+  static hash = "profile";
+
+  // The title is set after an await, so the shell waits for it
+  static blocking = true;
+
+  name: string;
+
+  // Later ids finish first, so the requests overlap in reverse order
+  async prepare({ page, params }: NewstackClientContext) {
+    await wait(60 - Number(params.id) * 10);
+
+    page.title = `Profile ${params.id}`;
+    this.name = `User ${params.id}`;
+  }
+
+  render({ params }: NewstackClientContext) {
+    return (
+      <div>
+        <h1>Profile {params.id}</h1>
+        <p>Name: {this.name}</p>
+      </div>
+    );
+  }
+}
+
+class Missing extends Newstack {
+  static hash = "missing";
+
+  async prepare({ response }: NewstackClientContext & NewstackServerContext) {
+    await wait(10);
+    response.status(404);
+  }
+
+  render() {
+    return <h1>Missing</h1>;
+  }
+}
+
+class BlockingMissing extends Missing {
+  static hash = "blocking-missing";
+
+  static blocking = true;
+}
+
+let aboutInstances = 0;
+
+class About extends Newstack {
+  static hash = "about";
+
+  constructor() {
+    super();
+    aboutInstances++;
+  }
+
+  render() {
+    return <h1>About</h1>;
+  }
+}
+
+class Application extends Newstack {
+  static hash = "application";
+
+  render() {
+    return (
+      <main>
+        <Profile route="/profile/:id" />
+        <About route="/about" />
+        <Missing route="/late" />
+        <BlockingMissing route="/blocking" />
+      </main>
+    );
+  }
+}
+
+describe("NewstackServer", () => {
+  it("isolates the context and the components of concurrent requests", async () => {
+    const server = new NewstackServer();
+    server.start(new Application());
+
+    const ids = ["1", "2", "3", "4", "5"];
+    const pages = await Promise.all(
+      ids.map(async (id) => {
+        const response = await server.server.request(`/profile/${id}`);
+        return response.text();
+      }),
+    );
+
+    pages.forEach((html, index) => {
+      const id = ids[index];
+
+      expect(html).toMatch(`Profile ${id}</title>`);
+      expect(html).toContain(`<h1>Profile ${id}</h1>`);
+      expect(html).toContain(`Name: User ${id}`);
+
+      for (const other of ids.filter((other) => other !== id)) {
+        expect(html).not.toContain(`Profile ${other}`);
+        expect(html).not.toContain(`User ${other}`);
+      }
+    });
+  });
+
+  it("finds the components and routes once, when the server starts", async () => {
+    const server = new NewstackServer();
+    server.start(new Application());
+
+    const found = aboutInstances;
+    const profile = await server.server.request("/profile/1");
+    const missing = await server.server.request("/missing");
+
+    expect(profile.status).toBe(200);
+    expect(missing.status).toBe(404);
+    expect(aboutInstances).toBe(found);
+
+    const about = await server.server.request("/about");
+    expect(await about.text()).toContain("<h1>About</h1>");
+    expect(aboutInstances).toBe(found + 1);
+  });
+
+  describe("response changes after an await in prepare", () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    it("applies them to blocking components", async () => {
+      const server = new NewstackServer();
+      server.start(new Application());
+
+      const response = await server.server.request("/blocking");
+
+      expect(response.status).toBe(404);
+      expect(await response.text()).toContain("<h1>Missing</h1>");
+    });
+
+    it("warns that they are ignored once the page is sent", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const server = new NewstackServer();
+      server.start(new Application());
+
+      const response = await server.server.request("/late");
+      const html = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(html).toContain("<h1>Missing</h1>");
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "The status set while serving /late was ignored",
+        ),
+      );
+    });
+  });
+
+  describe("prerender", () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    it("writes the pages responding with a 200 status inside the output directory", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const outdir = await mkdtemp(join(tmpdir(), "newstack-"));
+
+      try {
+        const written = await new NewstackServer().prerender(
+          new Application(),
+          { outdir, paths: ["/about", "/late", "/blocking", "/../outside"] },
+        );
+
+        expect(written).toEqual([join(outdir, "about", "index.html")]);
+        expect(await readFile(written[0], "utf8")).toContain("<h1>About</h1>");
+        expect(warn).toHaveBeenCalledWith(
+          "Skipped prerendering /late, which responds with 404",
+        );
+      } finally {
+        await rm(outdir, { recursive: true });
+      }
+    });
+  });
+});
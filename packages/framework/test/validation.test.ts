@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { NewstackValidationError } from "../src/errors";
+import { validateArgs } from "../src/validation";
+
+describe("validateArgs", () => {
+  it("keeps arguments named like client context keys", () => {
+    const args = { value: 1, bind: "name", ref: "input", settings: {} };
+
+    expect(validateArgs(args, undefined, ["ip", "headers"])).toEqual(args);
+  });
+
+  it("rejects arguments overriding the server context", () => {
+    const validate = () =>
+      validateArgs({ name: "a", ip: "1.1.1.1" }, undefined, ["ip", "headers"]);
+
+    expect(validate).toThrow(NewstackValidationError);
+    expect(validate).toThrow("ip");
+  });
+
+  it("rejects a `__proto__` argument", () => {
+    const args = JSON.parse('{"__proto__":{"admin":true}}');
+
+    expect(() => validateArgs(args)).toThrow(NewstackValidationError);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // Same JSX factory as the builder, imported by each test
+  esbuild: {
+    jsxFactory: "h",
+    jsxFragment: "Fragment",
+  },
+  test: {
+    include: ["packages/*/test/**/*.test.{ts,tsx}"],
+  },
+});